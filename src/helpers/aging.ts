@@ -0,0 +1,92 @@
+import { BigNumber } from "ethers";
+import { formatTokenAmount, getTokenKey, PermitData } from "./formatting";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const AGING_BUCKETS = [
+  { id: "0-30", label: "0–30 days", maxDays: 30 },
+  { id: "31-90", label: "31–90 days", maxDays: 90 },
+  { id: "91-365", label: "91–365 days", maxDays: 365 },
+  { id: "365+", label: ">365 days", maxDays: Infinity },
+  // Permits whose `created` cannot be parsed
+  { id: "unknown", label: "Unknown age", maxDays: NaN },
+] as const;
+
+export type AgingBucketId = (typeof AGING_BUCKETS)[number]["id"];
+
+/**
+ * Unclaimed amount of one token owed by or to one wallet, split by how long
+ * ago the permits were created.
+ */
+export interface AgingRow {
+  /** Partner wallet, or beneficiary wallet for user rows */
+  wallet: string;
+  userName?: string;
+  /** Token column, as in the totals tables */
+  token: string;
+  network: number;
+  buckets: Record<AgingBucketId, BigNumber>;
+  total: BigNumber;
+}
+
+/**
+ * The bucket of a permit created at `created`, in whole days before `asOf`,
+ * or `"unknown"` when `created` is not a date.
+ */
+export function getAgingBucket(created: string, asOf: Date): AgingBucketId {
+  const ageDays = Math.floor((asOf.getTime() - Date.parse(created)) / DAY_MS);
+  if (Number.isNaN(ageDays)) {
+    return "unknown";
+  }
+  return AGING_BUCKETS.find((bucket) => ageDays <= bucket.maxDays)!.id;
+}
+
+function emptyBuckets(): Record<AgingBucketId, BigNumber> {
+  return Object.fromEntries(
+    AGING_BUCKETS.map((bucket) => [bucket.id, BigNumber.from(0)]),
+  ) as Record<AgingBucketId, BigNumber>;
+}
+
+/**
+ * Buckets the claimable permits by age, per wallet and token.
+ *
+ * @param permits - Checked permits; only claimable ones are still owed
+ * @param groupBy - Which wallet a row belongs to: partner or beneficiary
+ * @param asOf - Reference time for the age, normally the report time
+ * @returns One row per wallet and token, sorted by wallet then token
+ */
+export function calculateAging(
+  permits: PermitData[],
+  groupBy: "partner" | "user",
+  asOf: Date,
+): AgingRow[] {
+  const rows = new Map<string, AgingRow>();
+  for (const permit of permits) {
+    if (permit.status !== "claimable") {
+      continue;
+    }
+    const wallet =
+      groupBy === "partner" ? permit.partnerAddress : permit.userAddress;
+    const token = getTokenKey(permit);
+    const key = `${wallet.toLowerCase()}-${token}`;
+    const row = rows.get(key) ?? {
+      wallet,
+      ...(groupBy === "user" && { userName: permit.userName }),
+      token,
+      network: permit.network,
+      buckets: emptyBuckets(),
+      total: BigNumber.from(0),
+    };
+    const amount = formatTokenAmount(permit.amount);
+    const bucket = getAgingBucket(permit.created, asOf);
+    row.buckets[bucket] = row.buckets[bucket].add(amount);
+    row.total = row.total.add(amount);
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values()).sort(
+    (a, b) =>
+      (a.userName ?? a.wallet).localeCompare(b.userName ?? b.wallet) ||
+      a.token.localeCompare(b.token),
+  );
+}
@@ -0,0 +1,28 @@
+import { getClaimBaseUrl } from "./config";
+import { PermitData } from "./formatting";
+
+/**
+ * Builds the claim link for a permit. The claim UI reads a base64 encoded JSON
+ * array of signed Permit2 transfers from the `claim` query parameter.
+ */
+export function getClaimUrl(permit: PermitData): string {
+  const claim = [
+    {
+      type: "erc20-permit",
+      permit: {
+        permitted: { token: permit.tokenAddress, amount: permit.amount },
+        nonce: permit.nonce,
+        deadline: permit.deadline,
+      },
+      transferDetails: {
+        to: permit.userAddress,
+        requestedAmount: permit.amount,
+      },
+      owner: permit.partnerAddress,
+      signature: permit.signature,
+      networkId: permit.network,
+    },
+  ];
+  const encoded = Buffer.from(JSON.stringify(claim)).toString("base64");
+  return `${getClaimBaseUrl()}?claim=${encodeURIComponent(encoded)}`;
+}
@@ -0,0 +1,432 @@
+import { utils } from "ethers";
+import { findNetworkByName } from "./networks";
+
+export const CLI_COMMANDS = [
+  "check",
+  "report",
+  "user",
+  "partner",
+  "reconcile",
+  "serve",
+  "diff",
+] as const;
+export const OUTPUT_FORMATS = ["markdown", "csv", "json", "ndjson"] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export interface CliOptions {
+  command: CliCommand;
+  /** GitHub login, user id or wallet for `user`, partner address for `partner` */
+  target?: string;
+  wallets: string[];
+  networks: number[];
+  /** Token contract addresses to include */
+  tokens: string[];
+  /** GitHub organization logins or ids */
+  organizations: string[];
+  /** GitHub repositories as `owner/name` or ids */
+  repositories: string[];
+  output?: string;
+  format: OutputFormat;
+  port: number;
+  /** Read Permit2 and token logs to explain how each used nonce was consumed */
+  scanEvents: boolean;
+  /**
+   * First block of the event scan, per network; `defaultFromBlock` otherwise,
+   * and Permit2's deployment block when neither is given
+   */
+  fromBlocks: Record<number, number>;
+  defaultFromBlock?: number;
+  /** Record claim transactions found by the event scan in the database */
+  writeBack: boolean;
+  /** With `writeBack`, only preview the rows that would change */
+  dryRun: boolean;
+  /** Claimed nonce cache path; `NONCE_CACHE_FILE` or the default otherwise */
+  cacheFile?: string;
+  /** Check every nonce on chain and leave the cache untouched */
+  noCache: boolean;
+  /** Directory snapshots are saved to and read from */
+  snapshotDir?: string;
+  /** Do not save a snapshot of this run */
+  noSnapshot: boolean;
+  /** Snapshot files given to `diff`, oldest first */
+  snapshotFiles: string[];
+  /** Only permits created at or after this time */
+  since?: Date;
+  /** Only permits created before this time */
+  until?: Date;
+  /** `--since` and `--until` as given, before durations are resolved */
+  window: { since?: string; until?: string };
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Raised for invalid command lines. The CLI prints the message with a pointer
+ * to `--help` and exits non-zero.
+ */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "CliError";
+  }
+}
+
+export const USAGE = `Usage: pending-rewards [command] [options]
+
+Commands:
+  report                    Check every permit and write the report (default)
+  check                     Check every permit and print the summary only
+  user <login|id|wallet>    List and report the permits of a single beneficiary
+  partner <address>         Report the permits funded by a single partner wallet
+  reconcile                 Report permits whose recorded transaction disagrees with the chain
+  serve                     Serve pending rewards as JSON over HTTP
+  diff [previous] [current] Compare two snapshots (default: the two latest, or previous against the latest)
+
+Options:
+  -w, --wallet <addresses>  Comma-separated partner wallets to include
+  -n, --network <networks>  Comma-separated network ids or names to include (e.g. 100 or gnosis)
+  -t, --token <addresses>   Comma-separated token addresses to include
+      --org <orgs>          Comma-separated GitHub organizations (login or id) to include
+      --repo <repos>        Comma-separated repositories (owner/name or id) to include
+  -o, --output <path>       Report file path (default: pending-rewards.<ext>)
+  -f, --format <format>     Report format: ${OUTPUT_FORMATS.join(", ")} (default: markdown)
+  -p, --port <port>         Port for serve (default: 3000)
+      --scan-events         Label used nonces as claimed or invalidated from chain logs
+      --from-block <blocks> First block to scan: a number, or network:block pairs (default: Permit2's deployment block)
+      --write-back          Record claim transactions found on chain in permits.transaction (implies --scan-events)
+      --dry-run             With --write-back, preview the changes without writing
+      --cache <path>        Claimed nonce cache file (default: .pending-rewards-cache.json)
+      --no-cache            Check every nonce on chain without reading or writing the cache
+      --snapshot-dir <path> Where run snapshots are saved (default: .pending-rewards-snapshots)
+      --no-snapshot         Do not save a snapshot of this run
+      --since <when>        Only permits created at or after a date (2025-01-31) or duration ago (30d, 12w)
+      --until <when>        Only permits created before a date or duration ago
+  -h, --help                Show this help
+  -v, --version             Show the version`;
+
+const VALUE_FLAGS = new Map<string, string>([
+  ["--wallet", "wallet"],
+  ["-w", "wallet"],
+  ["--network", "network"],
+  ["-n", "network"],
+  ["--token", "token"],
+  ["-t", "token"],
+  ["--org", "org"],
+  ["--repo", "repo"],
+  ["--output", "output"],
+  ["-o", "output"],
+  ["--format", "format"],
+  ["-f", "format"],
+  ["--port", "port"],
+  ["-p", "port"],
+  ["--from-block", "fromBlock"],
+  ["--cache", "cache"],
+  ["--snapshot-dir", "snapshotDir"],
+  ["--since", "since"],
+  ["--until", "until"],
+]);
+
+const BOOLEAN_FLAGS = new Map<string, string>([
+  ["--help", "help"],
+  ["-h", "help"],
+  ["--version", "version"],
+  ["-v", "version"],
+  ["--scan-events", "scanEvents"],
+  ["--write-back", "writeBack"],
+  ["--dry-run", "dryRun"],
+  ["--no-cache", "noCache"],
+  ["--no-snapshot", "noSnapshot"],
+]);
+
+function splitList(value: string): string[] {
+  return value
+    .split(/[,\n]/)
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0);
+}
+
+function parseAddress(value: string, label: string): string {
+  if (!utils.isAddress(value)) {
+    throw new CliError(`Invalid ${label} address: ${value}`);
+  }
+  return value;
+}
+
+function parseNetworkId(value: string): number {
+  const known = findNetworkByName(value);
+  if (known) {
+    return known.id;
+  }
+  const networkId = Number(value);
+  if (!Number.isInteger(networkId) || networkId <= 0) {
+    throw new CliError(`Invalid network id: ${value}`);
+  }
+  return networkId;
+}
+
+function parseOrganization(value: string): string {
+  if (!/^[A-Za-z0-9](?:[A-Za-z0-9-]*[A-Za-z0-9])?$/.test(value)) {
+    throw new CliError(`Invalid organization: ${value}`);
+  }
+  return value;
+}
+
+function parseRepository(value: string): string {
+  if (!/^\d+$/.test(value) && !/^[A-Za-z0-9-]+\/[A-Za-z0-9._-]+$/.test(value)) {
+    throw new CliError(
+      `Invalid repository: ${value} (expected owner/name or a repository id)`,
+    );
+  }
+  return value;
+}
+
+function parseBlockNumber(value: string): number {
+  const block = Number(value);
+  if (!Number.isInteger(block) || block < 0) {
+    throw new CliError(`Invalid block number: ${value}`);
+  }
+  return block;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DURATION_UNITS_MS: Record<string, number> = { d: DAY_MS, w: 7 * DAY_MS };
+
+/**
+ * Accepts a date or timestamp (`2025-01-31`, `2025-01-31T12:00:00Z`) or a
+ * duration before `now` (`30d`, `12w`). Dates without a time are UTC midnight.
+ */
+function parseTimeBound(value: string, flag: string, now: Date): Date {
+  const duration = /^(\d+)([dw])$/.exec(value);
+  if (duration) {
+    return new Date(
+      now.getTime() - Number(duration[1]) * DURATION_UNITS_MS[duration[2]],
+    );
+  }
+  const timestamp = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN;
+  if (Number.isNaN(timestamp)) {
+    throw new CliError(
+      `Invalid ${flag} value: ${value} (expected a date like 2025-01-31 or a duration like 30d)`,
+    );
+  }
+  return new Date(timestamp);
+}
+
+/**
+ * Parses the command line into validated options.
+ *
+ * @param argv - Arguments without the node/bun executable and script path
+ * @param now - Reference time for relative `--since`/`--until` durations
+ * @returns The parsed options
+ * @throws CliError on unknown commands or flags, missing values and invalid addresses
+ */
+export function parseCliArgs(
+  argv: string[],
+  now: Date = new Date(),
+): CliOptions {
+  const options: CliOptions = {
+    command: "report",
+    wallets: [],
+    networks: [],
+    tokens: [],
+    organizations: [],
+    repositories: [],
+    format: "markdown",
+    port: 3000,
+    scanEvents: false,
+    fromBlocks: {},
+    writeBack: false,
+    dryRun: false,
+    noCache: false,
+    noSnapshot: false,
+    snapshotFiles: [],
+    window: {},
+    help: false,
+    version: false,
+  };
+  const positionals: string[] = [];
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    if (!arg.startsWith("-")) {
+      positionals.push(arg);
+      continue;
+    }
+
+    const eqIndex = arg.indexOf("=");
+    const flag = eqIndex === -1 ? arg : arg.slice(0, eqIndex);
+    const inlineValue = eqIndex === -1 ? undefined : arg.slice(eqIndex + 1);
+
+    const booleanName = BOOLEAN_FLAGS.get(flag);
+    if (booleanName) {
+      if (inlineValue !== undefined) {
+        throw new CliError(`Option ${flag} does not take a value`);
+      }
+      options[
+        booleanName as
+          | "help"
+          | "version"
+          | "scanEvents"
+          | "writeBack"
+          | "dryRun"
+          | "noCache"
+          | "noSnapshot"
+      ] = true;
+      continue;
+    }
+
+    const valueName = VALUE_FLAGS.get(flag);
+    if (!valueName) {
+      throw new CliError(`Unknown option: ${flag}`);
+    }
+
+    let value = inlineValue;
+    if (value === undefined) {
+      const next = argv[i + 1];
+      if (next === undefined || next.startsWith("-")) {
+        throw new CliError(`Option ${flag} requires a value`);
+      }
+      value = next;
+      i++;
+    }
+    if (value.trim() === "") {
+      throw new CliError(`Option ${flag} requires a value`);
+    }
+
+    switch (valueName) {
+      case "wallet":
+        splitList(value).forEach((v) =>
+          options.wallets.push(parseAddress(v, "wallet")),
+        );
+        break;
+      case "network":
+        splitList(value).forEach((v) =>
+          options.networks.push(parseNetworkId(v)),
+        );
+        break;
+      case "token":
+        splitList(value).forEach((v) =>
+          options.tokens.push(parseAddress(v, "token")),
+        );
+        break;
+      case "org":
+        splitList(value).forEach((v) =>
+          options.organizations.push(parseOrganization(v)),
+        );
+        break;
+      case "repo":
+        splitList(value).forEach((v) =>
+          options.repositories.push(parseRepository(v)),
+        );
+        break;
+      case "output":
+        options.output = value;
+        break;
+      case "format":
+        if (!(OUTPUT_FORMATS as readonly string[]).includes(value)) {
+          throw new CliError(
+            `Unknown format: ${value} (expected one of ${OUTPUT_FORMATS.join(", ")})`,
+          );
+        }
+        options.format = value as OutputFormat;
+        break;
+      case "port": {
+        const port = Number(value);
+        if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+          throw new CliError(`Invalid port: ${value}`);
+        }
+        options.port = port;
+        break;
+      }
+      case "cache":
+        options.cacheFile = value;
+        break;
+      case "snapshotDir":
+        options.snapshotDir = value;
+        break;
+      case "since":
+        options.since = parseTimeBound(value, flag, now);
+        options.window.since = value;
+        break;
+      case "until":
+        options.until = parseTimeBound(value, flag, now);
+        options.window.until = value;
+        break;
+      case "fromBlock":
+        splitList(value).forEach((v) => {
+          const separator = v.indexOf(":");
+          if (separator === -1) {
+            options.defaultFromBlock = parseBlockNumber(v);
+          } else {
+            options.fromBlocks[parseNetworkId(v.slice(0, separator))] =
+              parseBlockNumber(v.slice(separator + 1));
+          }
+        });
+        break;
+    }
+  }
+
+  if (options.help || options.version) {
+    return options;
+  }
+
+  if (options.noCache && options.cacheFile) {
+    throw new CliError("Options --cache and --no-cache cannot be combined");
+  }
+  if (options.since && options.until && options.since >= options.until) {
+    throw new CliError("Option --since must be earlier than --until");
+  }
+  if (options.dryRun && !options.writeBack) {
+    throw new CliError("Option --dry-run requires --write-back");
+  }
+  // Claim transactions come from the event scan
+  if (options.writeBack) {
+    options.scanEvents = true;
+  }
+
+  const [command, ...rest] = positionals;
+  if (command !== undefined) {
+    if (!(CLI_COMMANDS as readonly string[]).includes(command)) {
+      throw new CliError(`Unknown command: ${command}`);
+    }
+    options.command = command as CliCommand;
+  }
+
+  const expectedArgs =
+    options.command === "user" || options.command === "partner" ? 1 : 0;
+  if (rest.length < expectedArgs) {
+    throw new CliError(
+      `Command "${options.command}" requires ${
+        options.command === "user"
+          ? "a GitHub login, user id or wallet"
+          : "an address"
+      }`,
+    );
+  }
+  const maxArgs = options.command === "diff" ? 2 : expectedArgs;
+  if (rest.length > maxArgs) {
+    throw new CliError(`Unexpected argument: ${rest[maxArgs]}`);
+  }
+  if (
+    options.command === "diff" &&
+    options.format !== "markdown" &&
+    options.format !== "json"
+  ) {
+    throw new CliError(`Command "diff" supports the markdown and json formats`);
+  }
+
+  if (options.command === "partner") {
+    options.target = parseAddress(rest[0], "partner");
+  } else if (options.command === "user") {
+    options.target = rest[0];
+    if (rest[0].startsWith("0x")) {
+      parseAddress(rest[0], "user wallet");
+    }
+  } else if (options.command === "diff") {
+    options.snapshotFiles = rest;
+  }
+
+  return options;
+}
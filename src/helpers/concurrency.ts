@@ -0,0 +1,163 @@
+export interface RateLimitOptions {
+  /** Requests allowed in flight at once */
+  concurrency: number;
+  /** Requests started per second */
+  requestsPerSecond: number;
+}
+
+const MIN_REQUESTS_PER_SECOND = 0.5;
+const INITIAL_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 30000;
+const SUCCESSES_BEFORE_SPEEDUP = 20;
+
+/**
+ * True for errors that mean the endpoint is overloaded rather than that the
+ * request itself is wrong: HTTP 429, JSON-RPC "limit exceeded" and timeouts.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  const err = error as {
+    code?: string;
+    status?: number;
+    reason?: string;
+    error?: { code?: number; message?: string };
+    message?: string;
+  };
+  if (err?.code === "TIMEOUT" || err?.status === 429) {
+    return true;
+  }
+  if (err?.error?.code === -32005) {
+    return true;
+  }
+  // ethers spells out the whole response, headers included, in `message`
+  // (e.g. `Keep-Alive: timeout=5`); its `reason` is the short description
+  return [err?.reason ?? err?.message, err?.error?.message].some((text) =>
+    /rate limit|too many requests|timeout/i.test(text ?? ""),
+  );
+}
+
+/**
+ * Work queue that bounds the number of tasks in flight and the rate at which
+ * they start. When a task fails with a rate-limit error the rate is halved and
+ * the queue pauses with exponential backoff; it speeds back up towards the
+ * configured rate after a run of successes.
+ */
+export class RateLimiter {
+  private _queue: (() => void)[] = [];
+  private _active = 0;
+  private _currentRps: number;
+  private _nextSlotAt = 0;
+  private _pausedUntil = 0;
+  private _backoffMs = INITIAL_BACKOFF_MS;
+  private _successStreak = 0;
+  private _timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private _options: RateLimitOptions,
+    private _label = "queue",
+  ) {
+    this._currentRps = _options.requestsPerSecond;
+  }
+
+  get requestsPerSecond(): number {
+    return this._currentRps;
+  }
+
+  schedule<T>(task: () => Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this._queue.push(() => {
+        task()
+          .then((result) => {
+            this._onSuccess();
+            resolve(result);
+          })
+          .catch((error) => {
+            if (isRateLimitError(error)) {
+              this._onRateLimited();
+            }
+            reject(error);
+          })
+          .finally(() => {
+            this._active--;
+            this._pump();
+          });
+      });
+      this._pump();
+    });
+  }
+
+  private _pump(): void {
+    if (this._timer) {
+      return;
+    }
+
+    while (this._queue.length > 0 && this._active < this._options.concurrency) {
+      const now = Date.now();
+      const readyAt = Math.max(this._nextSlotAt, this._pausedUntil);
+      if (readyAt > now) {
+        this._timer = setTimeout(() => {
+          this._timer = null;
+          this._pump();
+        }, readyAt - now);
+        return;
+      }
+
+      this._nextSlotAt = now + 1000 / this._currentRps;
+      this._active++;
+      this._queue.shift()!();
+    }
+  }
+
+  private _onSuccess(): void {
+    this._backoffMs = INITIAL_BACKOFF_MS;
+    if (this._currentRps >= this._options.requestsPerSecond) {
+      return;
+    }
+    this._successStreak++;
+    if (this._successStreak >= SUCCESSES_BEFORE_SPEEDUP) {
+      this._successStreak = 0;
+      this._currentRps = Math.min(
+        this._options.requestsPerSecond,
+        this._currentRps * 1.5,
+      );
+    }
+  }
+
+  private _onRateLimited(): void {
+    // Requests already in flight when the pause started report the same throttling
+    if (Date.now() < this._pausedUntil) {
+      return;
+    }
+    this._successStreak = 0;
+    this._currentRps = Math.max(MIN_REQUESTS_PER_SECOND, this._currentRps / 2);
+    this._pausedUntil = Date.now() + this._backoffMs;
+    console.warn(
+      `[RateLimit] ${this._label} throttled, pausing ${this._backoffMs}ms at ${this._currentRps.toFixed(1)} req/s`,
+    );
+    this._backoffMs = Math.min(MAX_BACKOFF_MS, this._backoffMs * 2);
+  }
+}
+
+/**
+ * Maps over items with at most `limit` calls of `fn` pending at once,
+ * preserving input order in the result.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(limit, items.length) }, worker),
+  );
+  return results;
+}
@@ -1,4 +1,8 @@
+import { readFileSync } from "fs";
+import { RateLimitOptions } from "./concurrency";
 import { Logger } from "./logger";
+import { getNetwork } from "./networks";
+import { RetryOptions } from "./retry";
 
 export function getPartnerAllowlist(
   logger: Logger,
@@ -20,3 +24,232 @@ export function getPartnerAllowlist(
   }
   return set;
 }
+
+const DEFAULT_MULTICALL_BATCH_SIZE = 100;
+const DEFAULT_RPC_CONCURRENCY = 8;
+const DEFAULT_RPC_REQUESTS_PER_SECOND = 20;
+const DEFAULT_PERMIT_CONCURRENCY = 200;
+const DEFAULT_LOG_CHUNK_SIZE = 10000;
+const DEFAULT_NONCE_CACHE_FILE = ".pending-rewards-cache.json";
+const DEFAULT_SNAPSHOT_DIR = ".pending-rewards-snapshots";
+const DEFAULT_SERVE_CACHE_TTL_SECONDS = 300;
+const DEFAULT_CLAIM_BASE_URL = "https://pay.ubq.fi";
+
+/**
+ * Reads a numeric setting where `<NAME>_<networkId>` overrides `<NAME>`.
+ */
+function readNetworkSetting(
+  name: string,
+  networkId: number,
+  defaultValue: number,
+  isValid: (value: number) => boolean,
+): number {
+  const raw = process.env[`${name}_${networkId}`] ?? process.env[name];
+  if (raw === undefined || raw.trim() === "") {
+    return defaultValue;
+  }
+
+  const value = Number(raw);
+  if (!isValid(value)) {
+    throw new Error(`Invalid ${name} for network ${networkId}: ${raw}`);
+  }
+  return value;
+}
+
+/**
+ * Resolves how many reads are packed into one Multicall3 request for a network.
+ * `MULTICALL_BATCH_SIZE_<networkId>` overrides `MULTICALL_BATCH_SIZE`; a value of
+ * 0 disables aggregation and sends every read as its own `eth_call`.
+ *
+ * @param networkId - The chain id
+ * @returns The batch size, or 0 when aggregation is disabled
+ */
+export function getMulticallBatchSize(networkId: number): number {
+  return readNetworkSetting(
+    "MULTICALL_BATCH_SIZE",
+    networkId,
+    DEFAULT_MULTICALL_BATCH_SIZE,
+    (size) => Number.isInteger(size) && size >= 0,
+  );
+}
+
+/**
+ * Resolves the RPC limits for a network from `RPC_CONCURRENCY` and `RPC_RPS`,
+ * each overridable per network with a `_<networkId>` suffix.
+ *
+ * @param networkId - The chain id
+ * @returns Requests allowed in flight and started per second
+ */
+export function getRpcRateLimit(networkId: number): RateLimitOptions {
+  return {
+    concurrency: readNetworkSetting(
+      "RPC_CONCURRENCY",
+      networkId,
+      DEFAULT_RPC_CONCURRENCY,
+      (value) => Number.isInteger(value) && value > 0,
+    ),
+    requestsPerSecond: readNetworkSetting(
+      "RPC_RPS",
+      networkId,
+      DEFAULT_RPC_REQUESTS_PER_SECOND,
+      (value) => Number.isFinite(value) && value > 0,
+    ),
+  };
+}
+
+/**
+ * Blocks covered by one `eth_getLogs` request when scanning events.
+ * `LOG_CHUNK_SIZE_<networkId>` overrides `LOG_CHUNK_SIZE`; lower it for
+ * endpoints that cap the block range of log queries.
+ */
+export function getLogChunkSize(networkId: number): number {
+  return readNetworkSetting(
+    "LOG_CHUNK_SIZE",
+    networkId,
+    DEFAULT_LOG_CHUNK_SIZE,
+    (size) => Number.isInteger(size) && size > 0,
+  );
+}
+
+/**
+ * Path of the claimed nonce cache, from `NONCE_CACHE_FILE`.
+ */
+export function getNonceCacheFile(): string {
+  return process.env.NONCE_CACHE_FILE?.trim() || DEFAULT_NONCE_CACHE_FILE;
+}
+
+/**
+ * Directory of the run snapshots compared by `diff`, from `SNAPSHOT_DIR`.
+ */
+export function getSnapshotDir(): string {
+  return process.env.SNAPSHOT_DIR?.trim() || DEFAULT_SNAPSHOT_DIR;
+}
+
+/**
+ * Base URL of the claim UI, from `CLAIM_BASE_URL`.
+ */
+export function getClaimBaseUrl(): string {
+  return process.env.CLAIM_BASE_URL?.trim() || DEFAULT_CLAIM_BASE_URL;
+}
+
+/**
+ * How long `serve` reuses a computed response, from `SERVE_CACHE_TTL`
+ * (seconds).
+ */
+export function getServeCacheTtlMs(): number {
+  const raw = process.env.SERVE_CACHE_TTL;
+  if (raw === undefined || raw.trim() === "") {
+    return DEFAULT_SERVE_CACHE_TTL_SECONDS * 1000;
+  }
+  const value = Number(raw);
+  if (!Number.isFinite(value) || value < 0) {
+    throw new Error(`Invalid SERVE_CACHE_TTL: ${raw}`);
+  }
+  return value * 1000;
+}
+
+/**
+ * Number of permits processed at once. RPC traffic is bounded separately by
+ * {@link getRpcRateLimit}; this only caps the work queued behind it.
+ */
+export function getPermitConcurrency(): number {
+  const raw = process.env.PERMIT_CONCURRENCY;
+  if (raw === undefined || raw.trim() === "") {
+    return DEFAULT_PERMIT_CONCURRENCY;
+  }
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    throw new Error(`Invalid PERMIT_CONCURRENCY: ${raw}`);
+  }
+  return value;
+}
+
+const rpcConfigFileCache = new Map<string, Record<string, string[]>>();
+
+function readRpcConfigFile(filePath: string): Record<string, string[]> {
+  const cached = rpcConfigFileCache.get(filePath);
+  if (cached) {
+    return cached;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read RPC config file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`RPC config file ${filePath} must contain a JSON object`);
+  }
+
+  const config: Record<string, string[]> = {};
+  for (const [networkId, urls] of Object.entries(parsed)) {
+    const list = typeof urls === "string" ? [urls] : urls;
+    if (!Array.isArray(list) || list.some((url) => typeof url !== "string")) {
+      throw new Error(
+        `Invalid RPC urls for network ${networkId} in ${filePath}`,
+      );
+    }
+    config[networkId] = list;
+  }
+  rpcConfigFileCache.set(filePath, config);
+  return config;
+}
+
+/**
+ * Resolves the ordered RPC endpoints for a network. `RPC_URLS_<networkId>`
+ * (comma-separated) wins over the JSON file named by `RPC_CONFIG_FILE`, which
+ * wins over the defaults of the network registry.
+ *
+ * @param networkId - The chain id
+ * @returns Endpoints in fallback order, empty when none are configured
+ */
+export function getRpcUrls(networkId: number): string[] {
+  const fromEnv = process.env[`RPC_URLS_${networkId}`];
+  if (fromEnv && fromEnv.trim() !== "") {
+    return fromEnv
+      .split(",")
+      .map((v) => v.trim())
+      .filter((v) => v.length > 0);
+  }
+
+  const configFile = process.env.RPC_CONFIG_FILE;
+  if (configFile) {
+    const fromFile = readRpcConfigFile(configFile)[String(networkId)];
+    if (fromFile && fromFile.length > 0) {
+      return fromFile;
+    }
+  }
+
+  return getNetwork(networkId)?.defaultRpcUrls ?? [];
+}
+
+/**
+ * Retry settings shared by RPC, Supabase and GitHub calls, from
+ * `RETRY_ATTEMPTS` and `RETRY_BASE_DELAY_MS`.
+ */
+export function getRetryOptions(): Partial<RetryOptions> {
+  const options: Partial<RetryOptions> = {};
+
+  const attempts = process.env.RETRY_ATTEMPTS;
+  if (attempts !== undefined && attempts.trim() !== "") {
+    const value = Number(attempts);
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Invalid RETRY_ATTEMPTS: ${attempts}`);
+    }
+    options.attempts = value;
+  }
+
+  const baseDelay = process.env.RETRY_BASE_DELAY_MS;
+  if (baseDelay !== undefined && baseDelay.trim() !== "") {
+    const value = Number(baseDelay);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new Error(`Invalid RETRY_BASE_DELAY_MS: ${baseDelay}`);
+    }
+    options.baseDelayMs = value;
+  }
+
+  return options;
+}
@@ -0,0 +1,104 @@
+import { BigNumber } from "ethers";
+import { DataQualityWarning, UnprocessedPermit } from "../types/report";
+import { parseDeadline } from "./status";
+import { PermitRow } from "./supabase";
+
+const MAX_UINT256 = BigNumber.from(2).pow(256).sub(1);
+
+function isUint256(value: string): boolean {
+  if (!/^\d+$/.test(value)) {
+    return false;
+  }
+  return BigNumber.from(value).lte(MAX_UINT256);
+}
+
+/**
+ * Explains why a permit row cannot be checked on chain, or returns `null` when
+ * it has everything the check needs. Whether its network can be reached
+ * depends on the chain client, see `ChainClient.hasNetwork`.
+ *
+ * @param permit - The row as fetched from Supabase
+ * @returns A human-readable reason, or `null` for a valid row
+ */
+export function getSkipReason(permit: PermitRow): string | null {
+  if (!permit.partners?.wallets?.address) {
+    return "missing partner wallet";
+  }
+  if (!permit.tokens) {
+    return "missing token";
+  }
+  if (!permit.tokens.address) {
+    return "missing token address";
+  }
+  if (!permit.tokens.network) {
+    return "missing token network";
+  }
+  if (!permit.users?.wallets?.address) {
+    return "missing beneficiary wallet";
+  }
+  if (!isUint256(permit.nonce)) {
+    return `unparseable nonce: ${permit.nonce}`;
+  }
+  if (!isUint256(permit.amount)) {
+    return `unparseable amount: ${permit.amount}`;
+  }
+  if (!parseDeadline(permit.deadline)) {
+    return `unparseable deadline: ${permit.deadline}`;
+  }
+  return null;
+}
+
+/**
+ * Flags a row that can be checked but is not stored the way it should be, or
+ * returns `null` when there is nothing to fix. Only call it for rows that
+ * passed {@link getSkipReason}.
+ *
+ * @param permit - The row as fetched from Supabase
+ * @returns The warning, or `null` for a clean row
+ */
+export function getDataWarning(permit: PermitRow): DataQualityWarning | null {
+  // Leading zeros: the chain sees the same number, but the stored string
+  // differs from what other tools derive from the signature
+  if (BigNumber.from(permit.nonce).toString() !== permit.nonce) {
+    return {
+      id: permit.id,
+      nonce: permit.nonce,
+      reason: `non-canonical nonce: ${permit.nonce}`,
+    };
+  }
+  // Aging reports such permits under "unknown"
+  if (Number.isNaN(Date.parse(permit.created))) {
+    return {
+      id: permit.id,
+      nonce: permit.nonce,
+      reason: `unparseable created: ${permit.created}`,
+    };
+  }
+  return null;
+}
+
+/**
+ * Indexes warnings by permit id, for writers that report them on the permit's
+ * own row.
+ */
+export function getWarningsByPermitId(
+  warnings: DataQualityWarning[],
+): Map<number, string> {
+  return new Map(warnings.map((warning) => [warning.id, warning.reason]));
+}
+
+export function toUnprocessedPermit(
+  permit: PermitRow,
+  reason: string,
+): UnprocessedPermit {
+  return {
+    id: permit.id,
+    nonce: permit.nonce,
+    amount: permit.amount,
+    partnerAddress: permit.partners?.wallets?.address ?? null,
+    tokenAddress: permit.tokens?.address ?? null,
+    network: permit.tokens?.network ?? null,
+    userAddress: permit.users?.wallets?.address ?? null,
+    reason,
+  };
+}
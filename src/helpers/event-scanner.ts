@@ -0,0 +1,297 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { PermitData } from "./formatting";
+import { ClaimSource } from "./status";
+import { getNonceBitmapPosition } from "./web3";
+
+export const TRANSFER_TOPIC = utils.id("Transfer(address,address,uint256)");
+const INVALIDATION_TOPIC = utils.id(
+  "UnorderedNonceInvalidation(address,uint256,uint256)",
+);
+
+export interface NonceUsage {
+  source: ClaimSource;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface EventScanOptions {
+  fromBlock: number;
+  /** Blocks per `eth_getLogs` request */
+  chunkSize: number;
+}
+
+interface InvalidationLog {
+  word: BigNumber;
+  mask: BigNumber;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+interface TransferLog {
+  to: string;
+  amount: BigNumber;
+  transactionHash: string;
+  blockNumber: number;
+  logIndex: number;
+}
+
+/**
+ * Whether a transaction is a direct call to Permit2 that transfers with the
+ * permit's signature: one of the `permitTransferFrom` variants, with the
+ * permit's nonce and partner as owner.
+ */
+export function isPermit2Claim(
+  transaction: Pick<providers.TransactionResponse, "to" | "data">,
+  permit2: Contract,
+  permit: Pick<PermitData, "nonce" | "partnerAddress">,
+): boolean {
+  if (transaction.to?.toLowerCase() !== permit2.address.toLowerCase()) {
+    return false;
+  }
+  let call: utils.TransactionDescription;
+  try {
+    call = permit2.interface.parseTransaction({ data: transaction.data });
+  } catch {
+    return false;
+  }
+
+  const owner = permit.partnerAddress.toLowerCase();
+  const nonce = BigNumber.from(permit.nonce);
+  switch (call.name) {
+    case "permitTransferFrom":
+    case "permitWitnessTransferFrom":
+      return (
+        call.args.owner.toLowerCase() === owner &&
+        nonce.eq(call.args.permit.nonce)
+      );
+    case "batchPermitTransferFrom":
+      return call.args.permits.some(
+        (signed: { nonce: BigNumber }, index: number) =>
+          call.args.owners[index].toLowerCase() === owner &&
+          nonce.eq(signed.nonce),
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Reads Permit2 `UnorderedNonceInvalidation` logs and ERC20 `Transfer` logs for
+ * one network, in block chunks, and works out how each used nonce was consumed.
+ * Logs are fetched once per owner (invalidations) and once per (token, owner)
+ * (transfers), then matched in memory. A transfer only counts when its
+ * transaction claims the permit through Permit2 (see `isPermit2Claim`), so a
+ * plain payment of the same amount is not taken for a claim.
+ */
+export class Permit2EventScanner {
+  private _toBlock: Promise<number> | null = null;
+  private _invalidations = new Map<string, Promise<InvalidationLog[]>>();
+  private _transfers = new Map<string, Promise<TransferLog[]>>();
+  private _transactions = new Map<
+    string,
+    Promise<providers.TransactionResponse | null>
+  >();
+  private _consumedTransfers = new Set<string>();
+
+  constructor(
+    private _provider: providers.Provider,
+    private _permit2: Contract,
+    private _options: EventScanOptions,
+  ) {}
+
+  /**
+   * Starts the log scans a permit needs, so scans for different owners and
+   * tokens run concurrently before permits are matched one by one.
+   */
+  async prefetch(permit: PermitData): Promise<void> {
+    await Promise.all([
+      this._getInvalidations(permit.partnerAddress),
+      this._getTransfers(permit.tokenAddress, permit.partnerAddress),
+    ]);
+  }
+
+  /**
+   * Labels a permit whose nonce is set on chain. When both an invalidation and
+   * a matching transfer exist, the earlier one is what used the nonce.
+   *
+   * @returns The usage, or `null` when no log explains the used nonce
+   */
+  async findNonceUsage(permit: PermitData): Promise<NonceUsage | null> {
+    const [invalidation, transfer] = await Promise.all([
+      this._findInvalidation(permit),
+      this._findTransfer(permit),
+    ]);
+
+    if (
+      invalidation &&
+      (!transfer || invalidation.blockNumber < transfer.blockNumber)
+    ) {
+      return {
+        source: "invalidation",
+        transactionHash: invalidation.transactionHash,
+        blockNumber: invalidation.blockNumber,
+      };
+    }
+    if (transfer) {
+      this._consumedTransfers.add(
+        `${transfer.transactionHash}-${transfer.logIndex}`,
+      );
+      return {
+        source: "transfer",
+        transactionHash: transfer.transactionHash,
+        blockNumber: transfer.blockNumber,
+      };
+    }
+    return null;
+  }
+
+  private async _findInvalidation(
+    permit: PermitData,
+  ): Promise<InvalidationLog | null> {
+    const { wordPos, bitPos } = getNonceBitmapPosition(permit.nonce);
+    const bit = BigNumber.from(1).shl(bitPos);
+    const logs = await this._getInvalidations(permit.partnerAddress);
+    return (
+      logs.find((log) => log.word.eq(wordPos) && !log.mask.and(bit).isZero()) ??
+      null
+    );
+  }
+
+  private async _findTransfer(permit: PermitData): Promise<TransferLog | null> {
+    const logs = await this._getTransfers(
+      permit.tokenAddress,
+      permit.partnerAddress,
+    );
+    const amount = BigNumber.from(permit.amount);
+    const candidates = logs.filter(
+      (log) =>
+        log.to === permit.userAddress.toLowerCase() &&
+        log.amount.eq(amount) &&
+        !this._consumedTransfers.has(`${log.transactionHash}-${log.logIndex}`),
+    );
+    for (const log of candidates) {
+      const transaction = await this._getTransaction(log.transactionHash);
+      if (transaction && isPermit2Claim(transaction, this._permit2, permit)) {
+        return log;
+      }
+    }
+    return null;
+  }
+
+  private _getTransaction(
+    hash: string,
+  ): Promise<providers.TransactionResponse | null> {
+    let pending = this._transactions.get(hash);
+    if (!pending) {
+      pending = this._provider.getTransaction(hash);
+      this._transactions.set(hash, pending);
+    }
+    return pending;
+  }
+
+  private _getInvalidations(owner: string): Promise<InvalidationLog[]> {
+    const key = owner.toLowerCase();
+    let pending = this._invalidations.get(key);
+    if (!pending) {
+      pending = this._getLogs({
+        address: this._permit2.address,
+        topics: [INVALIDATION_TOPIC, utils.hexZeroPad(owner, 32)],
+      }).then((logs) =>
+        logs.map((log) => {
+          const [word, mask] = utils.defaultAbiCoder.decode(
+            ["uint256", "uint256"],
+            log.data,
+          );
+          return {
+            word,
+            mask,
+            transactionHash: log.transactionHash,
+            blockNumber: log.blockNumber,
+          };
+        }),
+      );
+      this._invalidations.set(key, pending);
+    }
+    return pending;
+  }
+
+  private _getTransfers(token: string, owner: string): Promise<TransferLog[]> {
+    const key = `${token.toLowerCase()}-${owner.toLowerCase()}`;
+    let pending = this._transfers.get(key);
+    if (!pending) {
+      pending = this._getLogs({
+        address: token,
+        topics: [TRANSFER_TOPIC, utils.hexZeroPad(owner, 32)],
+      }).then((logs) =>
+        logs.map((log) => ({
+          to: utils.hexDataSlice(log.topics[2], 12).toLowerCase(),
+          amount: BigNumber.from(log.data),
+          transactionHash: log.transactionHash,
+          blockNumber: log.blockNumber,
+          logIndex: log.logIndex,
+        })),
+      );
+      this._transfers.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async _getLogs(
+    filter: Pick<providers.Filter, "address" | "topics">,
+  ): Promise<providers.Log[]> {
+    if (!this._toBlock) {
+      this._toBlock = this._provider.getBlockNumber();
+    }
+    const toBlock = await this._toBlock;
+    const logs: providers.Log[] = [];
+
+    for (
+      let start = this._options.fromBlock;
+      start <= toBlock;
+      start += this._options.chunkSize
+    ) {
+      const end = Math.min(start + this._options.chunkSize - 1, toBlock);
+      logs.push(
+        ...(await this._provider.getLogs({
+          ...filter,
+          fromBlock: start,
+          toBlock: end,
+        })),
+      );
+    }
+
+    return logs;
+  }
+}
+
+/**
+ * Labels every used nonce with how it was consumed and moves permits whose
+ * nonce was invalidated by the partner to the `invalidated` status.
+ *
+ * @param permits - Checked permits; only claimed ones are scanned
+ * @param getScanner - Returns the scanner for a network
+ * @returns How many used nonces could not be explained by any log
+ */
+export async function labelUsedNonces(
+  permits: PermitData[],
+  getScanner: (network: number) => Permit2EventScanner,
+): Promise<number> {
+  const usedPermits = permits.filter((permit) => permit.isClaimed);
+  await Promise.all(
+    usedPermits.map((permit) => getScanner(permit.network).prefetch(permit)),
+  );
+
+  let unexplained = 0;
+  // Sequential per permit so transfers are matched to permits deterministically
+  for (const permit of usedPermits) {
+    const usage = await getScanner(permit.network).findNonceUsage(permit);
+    if (!usage) {
+      unexplained++;
+      continue;
+    }
+    permit.claimSource = usage.source;
+    permit.claimTransaction = usage.transactionHash;
+    permit.status = usage.source === "transfer" ? "claimed" : "invalidated";
+  }
+  return unexplained;
+}
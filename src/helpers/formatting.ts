@@ -1,29 +1,58 @@
 import { BigNumber } from "ethers";
+import { getClaimUrl } from "./claim-url";
+import { getAddressUrl, getNetworkName } from "./networks";
+import {
+  ClaimSource,
+  formatDeadline,
+  PERMIT_STATUS_LABELS,
+  PERMIT_STATUSES,
+  PermitStatus,
+} from "./status";
+import { formatUsd, TokenRef, valueTokenTotals } from "./valuation";
 
 export interface PermitData {
-  nonce: number;
+  id: number;
+  /** Exact decimal string as stored in Supabase; nonces can exceed 2^53 */
+  nonce: string;
   amount: string;
   partnerAddress: string;
   tokenAddress: string;
   tokenSymbol: string;
+  tokenDecimals: number;
   network: number;
   userAddress: string;
   userName?: string;
   isClaimed: boolean;
+  deadline: string;
+  /** When the permit was generated, as stored in Supabase */
+  created: string;
+  /** `owner/name` of the repository the permit was generated in */
+  repository: string | null;
+  /** The GitHub issue, pull request or comment the permit rewards */
+  issueUrl: string | null;
+  status: PermitStatus;
+  signature: string;
+  /** Claim transaction recorded in the database */
+  transaction: string | null;
+  /** How the used nonce was consumed, when event scanning ran */
+  claimSource?: ClaimSource | null;
+  claimTransaction?: string | null;
 }
 
 export interface WalletTotal {
   wallet: string;
   userName?: string;
+  /** Networks the wallet's permits are on */
+  networks: number[];
   tokenTotals: Record<string, BigNumber>;
-  grandTotal: BigNumber;
 }
 
 export interface UserWalletTotal {
   wallet: string;
   userName: string;
+  /** Networks the wallet's permits are on */
+  networks: number[];
   tokenTotals: Record<string, BigNumber>;
-  grandTotal: BigNumber;
 }
 
 export function formatTokenAmount(
@@ -37,6 +66,101 @@ export function formatTokenAmount(
   }
 }
 
+/**
+ * Identifies a token column as `<networkId>:<lowercase address>`. Symbols are
+ * not unique, and fall back to `UNKNOWN` when the lookup fails, so they only
+ * label the column.
+ */
+export function getTokenKey(
+  permit: Pick<PermitData, "tokenAddress" | "network">
+): string {
+  return `${permit.network}:${permit.tokenAddress.toLowerCase()}`;
+}
+
+function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+}
+
+/**
+ * Column labels keyed by token key: `SYMBOL (Network)`, with the shortened
+ * token address added when two tokens would otherwise share a label.
+ */
+export function getTokenLabelsByKey(
+  permits: Pick<PermitData, "tokenAddress" | "tokenSymbol" | "network">[]
+): Record<string, string> {
+  const tokens = new Map<string, (typeof permits)[number]>();
+  for (const permit of permits) {
+    tokens.set(getTokenKey(permit), permit);
+  }
+
+  const label = (permit: (typeof permits)[number]) =>
+    `${permit.tokenSymbol} (${getNetworkName(permit.network)})`;
+  const labelCounts = new Map<string, number>();
+  for (const permit of tokens.values()) {
+    labelCounts.set(label(permit), (labelCounts.get(label(permit)) ?? 0) + 1);
+  }
+
+  const labels: Record<string, string> = {};
+  for (const [key, permit] of tokens) {
+    labels[key] =
+      labelCounts.get(label(permit))! > 1
+        ? `${permit.tokenSymbol} (${getNetworkName(
+            permit.network
+          )}, ${shortenAddress(permit.tokenAddress)})`
+        : label(permit);
+  }
+  return labels;
+}
+
+/**
+ * Orders token keys by their column label.
+ */
+export function sortTokensByLabel(
+  tokens: string[],
+  tokenLabels: Record<string, string>
+): string[] {
+  return [...tokens].sort((a, b) =>
+    (tokenLabels[a] ?? a).localeCompare(tokenLabels[b] ?? b)
+  );
+}
+
+export function getTokenDecimalsByKey(
+  permits: PermitData[]
+): Record<string, number> {
+  const decimals: Record<string, number> = {};
+  for (const permit of permits) {
+    decimals[getTokenKey(permit)] = permit.tokenDecimals;
+  }
+  return decimals;
+}
+
+export function getTokenRefsByKey(
+  permits: PermitData[]
+): Record<string, TokenRef> {
+  const tokens: Record<string, TokenRef> = {};
+  for (const permit of permits) {
+    tokens[getTokenKey(permit)] = {
+      network: permit.network,
+      address: permit.tokenAddress,
+      symbol: permit.tokenSymbol,
+    };
+  }
+  return tokens;
+}
+
+export function sumTokenTotals(
+  permits: PermitData[]
+): Record<string, BigNumber> {
+  const totals: Record<string, BigNumber> = {};
+  for (const permit of permits) {
+    const tokenKey = getTokenKey(permit);
+    totals[tokenKey] = (totals[tokenKey] || BigNumber.from(0)).add(
+      formatTokenAmount(permit.amount)
+    );
+  }
+  return totals;
+}
+
 export function calculateWalletTotals(
   permits: PermitData[],
   addressExtractor: (permit: PermitData) => string
@@ -45,18 +169,21 @@ export function calculateWalletTotals(
 
   for (const permit of permits) {
     const wallet = addressExtractor(permit);
-    const tokenKey = `${permit.tokenSymbol} (Network ID: ${permit.network})`;
+    const tokenKey = getTokenKey(permit);
     const amount = formatTokenAmount(permit.amount);
 
     if (!walletTotals.has(wallet)) {
       walletTotals.set(wallet, {
         wallet,
+        networks: [],
         tokenTotals: {},
-        grandTotal: BigNumber.from(0),
       });
     }
 
     const walletData = walletTotals.get(wallet)!;
+    if (!walletData.networks.includes(permit.network)) {
+      walletData.networks.push(permit.network);
+    }
 
     if (!walletData.tokenTotals[tokenKey]) {
       walletData.tokenTotals[tokenKey] = BigNumber.from(0);
@@ -64,7 +191,6 @@ export function calculateWalletTotals(
 
     walletData.tokenTotals[tokenKey] =
       walletData.tokenTotals[tokenKey].add(amount);
-    walletData.grandTotal = walletData.grandTotal.add(amount);
   }
 
   return walletTotals;
@@ -78,19 +204,22 @@ export function calculateUserWalletTotals(
   for (const permit of permits) {
     const wallet = permit.userAddress;
     const userName = permit.userName || "Unknown User";
-    const tokenKey = `${permit.tokenSymbol} (Network ID: ${permit.network})`;
+    const tokenKey = getTokenKey(permit);
     const amount = formatTokenAmount(permit.amount);
 
     if (!walletTotals.has(wallet)) {
       walletTotals.set(wallet, {
         wallet,
         userName,
+        networks: [],
         tokenTotals: {},
-        grandTotal: BigNumber.from(0),
       });
     }
 
     const walletData = walletTotals.get(wallet)!;
+    if (!walletData.networks.includes(permit.network)) {
+      walletData.networks.push(permit.network);
+    }
 
     if (!walletData.tokenTotals[tokenKey]) {
       walletData.tokenTotals[tokenKey] = BigNumber.from(0);
@@ -98,7 +227,6 @@ export function calculateUserWalletTotals(
 
     walletData.tokenTotals[tokenKey] =
       walletData.tokenTotals[tokenKey].add(amount);
-    walletData.grandTotal = walletData.grandTotal.add(amount);
   }
 
   return walletTotals;
@@ -158,6 +286,30 @@ export function formatBigNumber(
   return `${wholePart.toString()}.${trimmedFractional}`;
 }
 
+/**
+ * A markdown link to an address on its network's explorer, or one link per
+ * network when the address has permits on several.
+ */
+export function formatAddressLink(
+  address: string,
+  networks: number[]
+): string {
+  const links = networks.flatMap((network) => {
+    const url = getAddressUrl(network, address);
+    return url ? [{ network, url }] : [];
+  });
+
+  if (links.length === 0) {
+    return address;
+  }
+  if (networks.length === 1) {
+    return `[${address}](${links[0].url})`;
+  }
+  return `${address} (${links
+    .map(({ network, url }) => `[${getNetworkName(network)}](${url})`)
+    .join(", ")})`;
+}
+
 export function padString(str: string, length: number): string {
   return str.padEnd(length, " ");
 }
@@ -199,19 +351,30 @@ export function formatMarkdownTable(
 export function generateWalletTotalsTable(
   title: string,
   walletTotals: Map<string, WalletTotal>,
-  uniqueTokens: string[]
+  uniqueTokens: string[],
+  tokenDecimals: Record<string, number> = {},
+  prices: Record<string, number | null> = {},
+  tokenLabels: Record<string, string> = {}
 ): string {
-  const headers = ["Wallet", ...uniqueTokens, "Total"];
+  const headers = [
+    "Wallet",
+    ...uniqueTokens.map((token) => tokenLabels[token] ?? token),
+    "Total (USD)",
+  ];
 
   const rows = Array.from(walletTotals.values()).map((walletData) => {
-    const row = [walletData.wallet];
+    const row = [formatAddressLink(walletData.wallet, walletData.networks)];
 
     for (const token of uniqueTokens) {
       const amount = walletData.tokenTotals[token] || BigNumber.from(0);
-      row.push(formatBigNumber(amount));
+      row.push(formatBigNumber(amount, tokenDecimals[token] ?? 18));
     }
 
-    row.push(formatBigNumber(walletData.grandTotal));
+    row.push(
+      formatUsd(
+        valueTokenTotals(walletData.tokenTotals, tokenDecimals, prices)
+      )
+    );
 
     return row;
   });
@@ -222,22 +385,78 @@ export function generateWalletTotalsTable(
 export function generateUserRewardsTable(
   title: string,
   userTotals: Map<string, UserWalletTotal>,
-  uniqueTokens: string[]
+  uniqueTokens: string[],
+  tokenDecimals: Record<string, number> = {},
+  prices: Record<string, number | null> = {},
+  tokenLabels: Record<string, string> = {}
 ): string {
-  const headers = ["User Name", "Wallet", ...uniqueTokens, "Total"];
+  const headers = [
+    "User Name",
+    "Wallet",
+    ...uniqueTokens.map((token) => tokenLabels[token] ?? token),
+    "Total (USD)",
+  ];
 
   const rows = Array.from(userTotals.values()).map((userData) => {
-    const row = [userData.userName, userData.wallet];
+    const row = [
+      userData.userName,
+      formatAddressLink(userData.wallet, userData.networks),
+    ];
 
     for (const token of uniqueTokens) {
       const amount = userData.tokenTotals[token] || BigNumber.from(0);
-      row.push(formatBigNumber(amount));
+      row.push(formatBigNumber(amount, tokenDecimals[token] ?? 18));
     }
 
-    row.push(formatBigNumber(userData.grandTotal));
+    row.push(
+      formatUsd(valueTokenTotals(userData.tokenTotals, tokenDecimals, prices))
+    );
 
     return row;
   });
 
   return `## ${title}\n\n${formatMarkdownTable(headers, rows)}\n`;
 }
+
+/**
+ * One line per permit for a single beneficiary, most actionable status first,
+ * followed by the claim link of every claimable permit.
+ */
+export function formatPermitDetails(permits: PermitData[]): string {
+  const sorted = [...permits].sort(
+    (a, b) =>
+      PERMIT_STATUSES.indexOf(a.status) - PERMIT_STATUSES.indexOf(b.status) ||
+      a.id - b.id
+  );
+
+  const table = formatMarkdownTable(
+    [
+      "Permit ID",
+      "Nonce",
+      "Amount",
+      "Token",
+      "Network",
+      "Deadline",
+      "Status",
+      "Issue",
+    ],
+    sorted.map((permit) => [
+      String(permit.id),
+      permit.nonce,
+      formatBigNumber(BigNumber.from(permit.amount), permit.tokenDecimals),
+      permit.tokenSymbol,
+      getNetworkName(permit.network),
+      formatDeadline(permit.deadline),
+      PERMIT_STATUS_LABELS[permit.status],
+      permit.issueUrl ?? "",
+    ])
+  );
+
+  const claimLinks = sorted
+    .filter((permit) => permit.status === "claimable")
+    .map((permit) => `- Permit ${permit.id}: ${getClaimUrl(permit)}`);
+
+  return claimLinks.length > 0
+    ? `${table}\n\nClaim URLs:\n${claimLinks.join("\n")}`
+    : table;
+}
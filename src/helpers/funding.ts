@@ -0,0 +1,81 @@
+import { BigNumber } from "ethers";
+import { FundingRow } from "../types/report";
+import { mapWithConcurrency } from "./concurrency";
+import { getTokenKey, PermitData } from "./formatting";
+import { describeError } from "./retry";
+import { Erc20Wrapper } from "./web3";
+
+function shortfall(owed: BigNumber, available: BigNumber | null): BigNumber {
+  if (!available || available.gte(owed)) {
+    return BigNumber.from(0);
+  }
+  return owed.sub(available);
+}
+
+/**
+ * Compares what each partner wallet owes in claimable permits with its token
+ * balance and the allowance it granted to Permit2, per token and network. A
+ * permit can only be claimed while both cover it.
+ *
+ * @param permits - Checked permits; only claimable ones count as owed
+ * @param getToken - Returns the token contract on a network
+ * @param spender - The Permit2 address
+ * @param concurrency - Wallet and token pairs checked at once
+ * @returns One row per wallet and token, sorted by wallet then token
+ */
+export async function checkPartnerFunding(
+  permits: PermitData[],
+  getToken: (address: string, network: number) => Erc20Wrapper,
+  spender: string,
+  concurrency: number,
+): Promise<FundingRow[]> {
+  const owedByPair = new Map<string, FundingRow>();
+  for (const permit of permits) {
+    if (permit.status !== "claimable") {
+      continue;
+    }
+    const key = `${permit.partnerAddress.toLowerCase()}-${permit.network}-${permit.tokenAddress.toLowerCase()}`;
+    const row = owedByPair.get(key) ?? {
+      partnerAddress: permit.partnerAddress,
+      token: getTokenKey(permit),
+      tokenAddress: permit.tokenAddress,
+      network: permit.network,
+      owed: BigNumber.from(0),
+      balance: null,
+      allowance: null,
+      balanceShortfall: BigNumber.from(0),
+      allowanceShortfall: BigNumber.from(0),
+    };
+    row.owed = row.owed.add(permit.amount);
+    owedByPair.set(key, row);
+  }
+
+  const rows = await mapWithConcurrency(
+    Array.from(owedByPair.values()),
+    concurrency,
+    async (row): Promise<FundingRow> => {
+      const token = getToken(row.tokenAddress, row.network);
+      try {
+        const [balance, allowance] = await Promise.all([
+          token.balanceOf(row.partnerAddress),
+          token.allowance(row.partnerAddress, spender),
+        ]);
+        return {
+          ...row,
+          balance,
+          allowance,
+          balanceShortfall: shortfall(row.owed, balance),
+          allowanceShortfall: shortfall(row.owed, allowance),
+        };
+      } catch (error) {
+        return { ...row, error: describeError(error) };
+      }
+    },
+  );
+
+  return rows.sort(
+    (a, b) =>
+      a.partnerAddress.localeCompare(b.partnerAddress) ||
+      a.token.localeCompare(b.token),
+  );
+}
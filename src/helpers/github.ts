@@ -1,18 +1,27 @@
+import { getRetryOptions } from "./config";
+import { HttpError, withRetry } from "./retry";
+
 interface GitHubUser {
   login: string;
   id: number;
   name?: string;
 }
 
-const userCache = new Map<number, string>();
+interface GitHubRepository {
+  id: number;
+  full_name: string;
+  owner: GitHubUser;
+}
 
-export async function fetchGitHubUsername(userId: number): Promise<string> {
-  if (userCache.has(userId)) {
-    return userCache.get(userId)!;
-  }
+const userCache = new Map<number, string>();
 
-  try {
-    const response = await fetch(`https://api.github.com/user/${userId}`, {
+/**
+ * GETs a GitHub API path, retrying rate limits and server errors. 404 is
+ * returned to the caller; other failures throw.
+ */
+async function fetchGitHub(apiPath: string): Promise<Response> {
+  return withRetry(async () => {
+    const response = await fetch(`https://api.github.com${apiPath}`, {
       headers: {
         "User-Agent": "@ubiquity-os/pending-rewards",
         ...(process.env.GITHUB_TOKEN && {
@@ -21,6 +30,27 @@ export async function fetchGitHubUsername(userId: number): Promise<string> {
       },
     });
 
+    if (!response.ok && response.status !== 404) {
+      // GitHub signals secondary rate limits with 403
+      const status =
+        response.status === 403 &&
+        response.headers.get("x-ratelimit-remaining") === "0"
+          ? 429
+          : response.status;
+      throw new HttpError(`GitHub API ${apiPath}: ${response.status}`, status);
+    }
+    return response;
+  }, getRetryOptions());
+}
+
+export async function fetchGitHubUsername(userId: number): Promise<string> {
+  if (userCache.has(userId)) {
+    return userCache.get(userId)!;
+  }
+
+  try {
+    const response = await fetchGitHub(`/user/${userId}`);
+
     if (!response.ok) {
       console.warn(`Failed to fetch GitHub user ${userId}: ${response.status}`);
       return `user-${userId}`;
@@ -37,6 +67,42 @@ export async function fetchGitHubUsername(userId: number): Promise<string> {
   }
 }
 
+/**
+ * Resolves a GitHub login to its user, or `null` when the login does not exist.
+ */
+export async function fetchGitHubUserByLogin(
+  login: string
+): Promise<GitHubUser | null> {
+  const response = await fetchGitHub(`/users/${encodeURIComponent(login)}`);
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  const user: GitHubUser = await response.json();
+  userCache.set(user.id, user.login);
+  return user;
+}
+
+/**
+ * Resolves an `owner/name` repository, or `null` when it does not exist or is
+ * not visible to the configured token.
+ */
+export async function fetchGitHubRepository(
+  fullName: string
+): Promise<GitHubRepository | null> {
+  const [owner, name] = fullName.split("/");
+  const response = await fetchGitHub(
+    `/repos/${encodeURIComponent(owner)}/${encodeURIComponent(name)}`
+  );
+
+  if (response.status === 404) {
+    return null;
+  }
+
+  return response.json();
+}
+
 export async function fetchGitHubUsernames(
   userIds: number[]
 ): Promise<Map<number, string>> {
@@ -93,3 +93,22 @@ export class Logger {
     console.log("");
   }
 }
+
+/**
+ * Logger for long-running modes such as `serve`: no spinners, sections or
+ * progress, only warnings and errors, so concurrent runs never fight over the
+ * terminal.
+ */
+export class QuietLogger extends Logger {
+  startSpinner(): void {}
+
+  stopSpinner(): void {}
+
+  updateSpinner(): void {}
+
+  updateLine(): void {}
+
+  info(): void {}
+
+  section(): void {}
+}
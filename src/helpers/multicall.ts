@@ -0,0 +1,127 @@
+import { Contract, providers, utils } from "ethers";
+
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11";
+
+const MULTICALL3_ABI = [
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+];
+
+interface QueuedCall {
+  contract: Contract;
+  method: string;
+  args: unknown[];
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+interface Aggregate3Result {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * Packs view calls made in the same tick into Multicall3 `aggregate3` requests.
+ * Sub-calls that fail (or cannot be decoded) are retried as a single `eth_call`
+ * for that item only, so one bad token never fails its whole batch.
+ */
+export class MulticallBatcher {
+  private _queue: QueuedCall[] = [];
+  private _flushTimer: NodeJS.Timeout | null = null;
+  private _multicall: Contract;
+
+  constructor(
+    provider: providers.Provider,
+    private _batchSize: number,
+  ) {
+    this._multicall = new Contract(
+      MULTICALL3_ADDRESS,
+      MULTICALL3_ABI,
+      provider,
+    );
+  }
+
+  call<T>(
+    contract: Contract,
+    method: string,
+    args: unknown[] = [],
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this._queue.push({
+        contract,
+        method,
+        args,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+      });
+
+      if (this._queue.length >= this._batchSize) {
+        this._flush();
+      } else if (!this._flushTimer) {
+        this._flushTimer = setTimeout(() => this._flush(), 0);
+      }
+    });
+  }
+
+  private _flush(): void {
+    if (this._flushTimer) {
+      clearTimeout(this._flushTimer);
+      this._flushTimer = null;
+    }
+
+    while (this._queue.length > 0) {
+      const batch = this._queue.splice(0, this._batchSize);
+      void this._execute(batch);
+    }
+  }
+
+  private async _execute(batch: QueuedCall[]): Promise<void> {
+    let results: Aggregate3Result[] | null = null;
+
+    try {
+      results = await this._multicall.callStatic.aggregate3(
+        batch.map((call) => ({
+          target: call.contract.address,
+          allowFailure: true,
+          callData: call.contract.interface.encodeFunctionData(
+            call.method,
+            call.args,
+          ),
+        })),
+      );
+    } catch (error) {
+      console.warn(
+        `[Multicall] aggregate3 failed for ${batch.length} calls, falling back to single calls:`,
+        error instanceof Error ? error.message : String(error),
+      );
+    }
+
+    await Promise.all(
+      batch.map(async (call, index) => {
+        const result = results?.[index];
+        if (result?.success) {
+          try {
+            call.resolve(decodeResult(call, result.returnData));
+            return;
+          } catch {
+            // Malformed return data, fall through to a single call
+          }
+        }
+
+        try {
+          call.resolve(await call.contract[call.method](...call.args));
+        } catch (error) {
+          call.reject(error);
+        }
+      }),
+    );
+  }
+}
+
+function decodeResult(call: QueuedCall, returnData: string): unknown {
+  const decoded: utils.Result = call.contract.interface.decodeFunctionResult(
+    call.method,
+    returnData,
+  );
+  // Mirror ethers' Contract behaviour of unwrapping single return values
+  return decoded.length === 1 ? decoded[0] : decoded;
+}
@@ -0,0 +1,102 @@
+export interface NativeCurrency {
+  name: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface NetworkInfo {
+  id: number;
+  name: string;
+  /** Other names `--network` accepts, lowercase */
+  aliases: string[];
+  /** Block explorer base URL, `null` when the network has none */
+  explorerUrl: string | null;
+  nativeCurrency: NativeCurrency;
+  /** Endpoints used when none are configured for the network */
+  defaultRpcUrls: string[];
+  /** Where the event scan starts when no `--from-block` is given */
+  permit2DeploymentBlock: number;
+}
+
+/**
+ * Networks permits are known to be issued on, plus a local development chain.
+ */
+export const NETWORKS: Record<number, NetworkInfo> = {
+  1: {
+    id: 1,
+    name: "Ethereum",
+    aliases: ["mainnet", "eth"],
+    explorerUrl: "https://etherscan.io",
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    defaultRpcUrls: ["https://rpc.ubq.fi/1"],
+    permit2DeploymentBlock: 15986406,
+  },
+  100: {
+    id: 100,
+    name: "Gnosis",
+    aliases: ["xdai", "gnosis-chain"],
+    explorerUrl: "https://gnosisscan.io",
+    nativeCurrency: { name: "xDAI", symbol: "XDAI", decimals: 18 },
+    defaultRpcUrls: ["https://rpc.ubq.fi/100"],
+    // A lower bound rather than the exact block: Permit2 went live in
+    // November 2022 and this block is from earlier that year
+    permit2DeploymentBlock: 20000000,
+  },
+  31337: {
+    id: 31337,
+    name: "Local",
+    aliases: ["localhost", "anvil"],
+    explorerUrl: null,
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+    defaultRpcUrls: ["http://127.0.0.1:8545"],
+    permit2DeploymentBlock: 0,
+  },
+};
+
+export function getNetwork(networkId: number): NetworkInfo | null {
+  return NETWORKS[networkId] ?? null;
+}
+
+/**
+ * The registry name of a network, or `Network <id>` for unknown ids.
+ */
+export function getNetworkName(networkId: number): string {
+  return getNetwork(networkId)?.name ?? `Network ${networkId}`;
+}
+
+/**
+ * Looks a network up by its registry name or one of its aliases,
+ * case-insensitively.
+ */
+export function findNetworkByName(name: string): NetworkInfo | null {
+  const wanted = name.trim().toLowerCase();
+  return (
+    Object.values(NETWORKS).find(
+      (network) =>
+        network.name.toLowerCase() === wanted ||
+        network.aliases.includes(wanted),
+    ) ?? null
+  );
+}
+
+/**
+ * Explorer page of an address on a network, or `null` without an explorer.
+ */
+export function getAddressUrl(
+  networkId: number,
+  address: string,
+): string | null {
+  const explorerUrl = getNetwork(networkId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl}/address/${address}` : null;
+}
+
+/**
+ * Explorer page of a transaction on a network, or `null` without an explorer.
+ */
+export function getTransactionUrl(
+  networkId: number,
+  hash: string,
+): string | null {
+  const explorerUrl = getNetwork(networkId)?.explorerUrl;
+  return explorerUrl ? `${explorerUrl}/tx/${hash}` : null;
+}
@@ -0,0 +1,115 @@
+import { BigNumber } from "ethers";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "fs";
+
+const CACHE_VERSION = 1;
+
+export interface ClaimedNonceEntry {
+  /** Latest block of the network when the nonce was first seen used */
+  blockNumber: number;
+}
+
+interface CacheFile {
+  version: number;
+  claimed: Record<string, ClaimedNonceEntry>;
+}
+
+/**
+ * Used Permit2 nonces remembered across runs. A used nonce can never become
+ * unused again, so permits found here skip the on-chain check; only unused and
+ * new permits are queried. Entries are keyed by network, partner and nonce.
+ */
+export class ClaimedNonceCache {
+  private _claimed = new Map<string, ClaimedNonceEntry>();
+  private _pending = new Map<string, number>();
+  private _hits = 0;
+
+  constructor(readonly filePath: string) {
+    if (!existsSync(filePath)) {
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(readFileSync(filePath, "utf8")) as CacheFile;
+      if (parsed.version !== CACHE_VERSION || !parsed.claimed) {
+        throw new Error(`unsupported cache version ${parsed.version}`);
+      }
+      for (const [key, entry] of Object.entries(parsed.claimed)) {
+        this._claimed.set(key, entry);
+      }
+    } catch (error) {
+      // The cache only saves RPC calls, so a broken file just means a full run
+      console.warn(
+        `[Cache] Ignoring unreadable nonce cache ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private static _key(network: number, partner: string, nonce: string): string {
+    return `${network}:${partner.toLowerCase()}:${BigNumber.from(nonce).toString()}`;
+  }
+
+  /** Entries loaded from disk plus those recorded in this run */
+  get size(): number {
+    return this._claimed.size;
+  }
+
+  /** Lookups answered from the cache in this run */
+  get hits(): number {
+    return this._hits;
+  }
+
+  /** Nonces recorded in this run and not yet saved */
+  get pendingCount(): number {
+    return this._pending.size;
+  }
+
+  isClaimed(network: number, partner: string, nonce: string): boolean {
+    const claimed = this._claimed.has(
+      ClaimedNonceCache._key(network, partner, nonce),
+    );
+    if (claimed) {
+      this._hits++;
+    }
+    return claimed;
+  }
+
+  /** Remembers a nonce found used on chain; written out by {@link save} */
+  recordClaimed(network: number, partner: string, nonce: string): void {
+    const key = ClaimedNonceCache._key(network, partner, nonce);
+    if (!this._claimed.has(key)) {
+      this._pending.set(key, network);
+    }
+  }
+
+  /**
+   * Stamps the nonces recorded in this run with their network's latest block
+   * and writes the cache. The file is replaced atomically so an interrupted
+   * run never leaves a truncated cache behind.
+   *
+   * @param getBlockNumber - Returns the latest block of a network
+   */
+  async save(
+    getBlockNumber: (network: number) => Promise<number>,
+  ): Promise<void> {
+    const networks = new Set(this._pending.values());
+    const blockNumbers = new Map<number, number>();
+    await Promise.all(
+      Array.from(networks).map(async (network) => {
+        blockNumbers.set(network, await getBlockNumber(network));
+      }),
+    );
+
+    for (const [key, network] of this._pending) {
+      this._claimed.set(key, { blockNumber: blockNumbers.get(network)! });
+    }
+    this._pending.clear();
+
+    const file: CacheFile = {
+      version: CACHE_VERSION,
+      claimed: Object.fromEntries(this._claimed),
+    };
+    const tempPath = `${this.filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file));
+    renameSync(tempPath, this.filePath);
+  }
+}
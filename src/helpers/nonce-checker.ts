@@ -0,0 +1,47 @@
+import { BigNumber } from "ethers";
+import { Permit2Wrapper } from "./web3";
+
+/**
+ * Checks Permit2 nonces grouped by the (network, owner, wordPos) bitmap word
+ * they live in. Each word is fetched once and shared by every permit in the
+ * group, which resolves its own bit locally from the cached bitmap.
+ */
+export class NonceBitmapChecker {
+  private _words = new Map<string, Promise<BigNumber>>();
+  private _lookupCount = 0;
+
+  constructor(private _getPermit2: (network: number) => Permit2Wrapper) {}
+
+  get lookupCount(): number {
+    return this._lookupCount;
+  }
+
+  get wordCount(): number {
+    return this._words.size;
+  }
+
+  async isNonceClaimed(
+    network: number,
+    owner: string,
+    nonce: string | number,
+  ): Promise<boolean> {
+    const permit2 = this._getPermit2(network);
+    const { wordPos, bitPos } = permit2.nonceBitmap(nonce);
+    this._lookupCount++;
+
+    const key = `${network}-${owner.toLowerCase()}-${wordPos.toString()}`;
+    let word = this._words.get(key);
+    if (!word) {
+      word = permit2.fetchBitmap(owner, wordPos).catch((error) => {
+        // The provider already retried this read with backoff; drop the
+        // failure so a later permit in the same word asks the RPC afresh
+        // instead of inheriting the rejection
+        this._words.delete(key);
+        throw error;
+      });
+      this._words.set(key, word);
+    }
+
+    return Permit2Wrapper.isBitSet(await word, bitPos);
+  }
+}
@@ -0,0 +1,155 @@
+import { BigNumber, Contract, providers, utils } from "ethers";
+import { ReconciliationIssue, ReconciliationIssueKind } from "../types/report";
+import { mapWithConcurrency } from "./concurrency";
+import { isPermit2Claim, TRANSFER_TOPIC } from "./event-scanner";
+import { PermitData } from "./formatting";
+import { getNetworkName } from "./networks";
+import { describeError } from "./retry";
+
+export const RECONCILIATION_ISSUE_LABELS: Record<
+  ReconciliationIssueKind,
+  string
+> = {
+  "unclaimed-with-transaction": "Transaction recorded, nonce unused",
+  "claimed-without-transaction": "Nonce used, no transaction recorded",
+  "receipt-mismatch": "Transaction does not match permit",
+  "receipt-unavailable": "Transaction could not be checked",
+};
+
+function issue(
+  permit: PermitData,
+  kind: ReconciliationIssueKind,
+  detail: string,
+): ReconciliationIssue {
+  return {
+    permitId: permit.id,
+    nonce: permit.nonce,
+    network: permit.network,
+    kind,
+    transaction: permit.transaction,
+    detail,
+  };
+}
+
+/**
+ * Explains why a transaction is not the claim of this permit, or returns
+ * `null` when it is a Permit2 claim of the permit's nonce whose receipt holds
+ * the expected token transfer.
+ *
+ * @param permit - The permit the transaction should have claimed
+ * @param hash - The transaction, recorded or found by the event scan
+ * @param provider - Provider of the permit's network
+ * @param permit2 - Permit2 on the permit's network
+ * @returns The mismatch, or `null` when the transaction is the claim
+ */
+export async function checkReceipt(
+  permit: PermitData,
+  hash: string,
+  provider: providers.Provider,
+  permit2: Contract,
+): Promise<string | null> {
+  if (!utils.isHexString(hash, 32)) {
+    return "malformed transaction hash";
+  }
+
+  const receipt = await provider.getTransactionReceipt(hash);
+  if (!receipt) {
+    return `transaction not found on ${getNetworkName(permit.network)}`;
+  }
+  if (receipt.status === 0) {
+    return "transaction reverted";
+  }
+
+  const transaction = await provider.getTransaction(hash);
+  if (!transaction || !isPermit2Claim(transaction, permit2, permit)) {
+    return `transaction is not a Permit2 claim of nonce ${permit.nonce}`;
+  }
+
+  const transfers = receipt.logs.filter(
+    (log) =>
+      log.topics[0] === TRANSFER_TOPIC &&
+      log.topics.length === 3 &&
+      log.address.toLowerCase() === permit.tokenAddress.toLowerCase(),
+  );
+  if (transfers.length === 0) {
+    return `no ${permit.tokenSymbol} transfer in transaction`;
+  }
+
+  const amount = BigNumber.from(permit.amount);
+  const toBeneficiary = transfers.filter(
+    (log) =>
+      utils.hexDataSlice(log.topics[2], 12).toLowerCase() ===
+      permit.userAddress.toLowerCase(),
+  );
+  if (toBeneficiary.length === 0) {
+    return `${permit.tokenSymbol} was not sent to beneficiary ${permit.userAddress}`;
+  }
+  if (!toBeneficiary.some((log) => BigNumber.from(log.data).eq(amount))) {
+    return `transferred amount ${BigNumber.from(toBeneficiary[0].data).toString()} differs from permit amount ${permit.amount}`;
+  }
+  return null;
+}
+
+/**
+ * Cross-checks the `transaction` column of each permit against its nonce on
+ * chain. Flags transactions recorded for unused nonces, used nonces without a
+ * recorded transaction (unless the event scan shows the partner invalidated
+ * them) and recorded transactions that fail `checkReceipt`.
+ *
+ * @param permits - Checked permits
+ * @param getProvider - Returns the provider for a network
+ * @param getPermit2 - Returns Permit2 on a network
+ * @param concurrency - Receipts fetched at once
+ * @returns One issue per inconsistent permit
+ */
+export async function reconcilePermits(
+  permits: PermitData[],
+  getProvider: (network: number) => providers.Provider,
+  getPermit2: (network: number) => Contract,
+  concurrency: number,
+): Promise<ReconciliationIssue[]> {
+  const results = await mapWithConcurrency(
+    permits,
+    concurrency,
+    async (permit): Promise<ReconciliationIssue | null> => {
+      if (permit.transaction && !permit.isClaimed) {
+        return issue(
+          permit,
+          "unclaimed-with-transaction",
+          "nonce is still unused on chain",
+        );
+      }
+      if (!permit.transaction && permit.isClaimed) {
+        if (permit.claimSource === "invalidation") {
+          return null;
+        }
+        return issue(
+          permit,
+          "claimed-without-transaction",
+          permit.claimTransaction
+            ? `claimed in ${permit.claimTransaction}`
+            : "nonce is used on chain",
+        );
+      }
+      if (!permit.transaction) {
+        return null;
+      }
+
+      try {
+        const mismatch = await checkReceipt(
+          permit,
+          permit.transaction,
+          getProvider(permit.network),
+          getPermit2(permit.network),
+        );
+        return mismatch ? issue(permit, "receipt-mismatch", mismatch) : null;
+      } catch (error) {
+        return issue(permit, "receipt-unavailable", describeError(error));
+      }
+    },
+  );
+
+  return results.filter(
+    (result): result is ReconciliationIssue => result !== null,
+  );
+}
@@ -0,0 +1,98 @@
+import { BigNumber } from "ethers";
+import { CliError } from "./cli";
+import { PermitData, sumTokenTotals } from "./formatting";
+import { fetchGitHubRepository, fetchGitHubUserByLogin } from "./github";
+
+const GITHUB_URL_PATTERN = /^https:\/\/github\.com\/([^/]+)\/([^/#?]+)/;
+
+/**
+ * The `owner/name` of the repository a GitHub issue, pull request or comment
+ * URL belongs to, or `null` for anything else.
+ */
+export function getRepositoryName(nodeUrl: string | null): string | null {
+  const match = nodeUrl ? GITHUB_URL_PATTERN.exec(nodeUrl) : null;
+  return match ? `${match[1]}/${match[2]}` : null;
+}
+
+/**
+ * What one repository's contributors are still owed.
+ */
+export interface RepositoryTotal {
+  organization: string | null;
+  /** `owner/name`, or `null` for permits without a GitHub location */
+  repository: string | null;
+  permitCount: number;
+  tokenTotals: Record<string, BigNumber>;
+}
+
+/**
+ * Sums the claimable permits per repository, sorted by organization and
+ * repository with permits of unknown location last.
+ */
+export function calculateRepositoryTotals(
+  permits: PermitData[],
+): RepositoryTotal[] {
+  const byRepository = new Map<string | null, PermitData[]>();
+  for (const permit of permits) {
+    if (permit.status !== "claimable") {
+      continue;
+    }
+    const group = byRepository.get(permit.repository) ?? [];
+    group.push(permit);
+    byRepository.set(permit.repository, group);
+  }
+
+  return Array.from(byRepository.entries())
+    .map(([repository, group]) => ({
+      organization: repository ? repository.split("/")[0] : null,
+      repository,
+      permitCount: group.length,
+      tokenTotals: sumTokenTotals(group),
+    }))
+    .sort((a, b) =>
+      a.repository === null || b.repository === null
+        ? Number(a.repository === null) - Number(b.repository === null)
+        : a.organization!.localeCompare(b.organization!) ||
+          a.repository.localeCompare(b.repository),
+    );
+}
+
+/**
+ * Turns `--org` logins into GitHub ids; all-digit values already are ids.
+ */
+export async function resolveOrganizationIds(
+  organizations: string[],
+): Promise<number[]> {
+  return Promise.all(
+    organizations.map(async (organization) => {
+      if (/^\d+$/.test(organization)) {
+        return Number(organization);
+      }
+      const owner = await fetchGitHubUserByLogin(organization);
+      if (!owner) {
+        throw new CliError(`GitHub organization not found: ${organization}`);
+      }
+      return owner.id;
+    }),
+  );
+}
+
+/**
+ * Turns `--repo` names into GitHub ids; all-digit values already are ids.
+ */
+export async function resolveRepositoryIds(
+  repositories: string[],
+): Promise<number[]> {
+  return Promise.all(
+    repositories.map(async (repository) => {
+      if (/^\d+$/.test(repository)) {
+        return Number(repository);
+      }
+      const found = await fetchGitHubRepository(repository);
+      if (!found) {
+        throw new CliError(`GitHub repository not found: ${repository}`);
+      }
+      return found.id;
+    }),
+  );
+}
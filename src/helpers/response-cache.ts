@@ -0,0 +1,60 @@
+interface CacheEntry {
+  expiresAt: number;
+  value: Promise<unknown>;
+}
+
+/** Responses kept at once; the oldest are dropped first beyond this */
+export const MAX_CACHE_ENTRIES = 1000;
+
+/**
+ * Responses keyed by route, each computed once per TTL. Concurrent requests
+ * for the same key share the pending computation; failures are not cached.
+ * Expired entries are swept whenever a response is computed, and at most
+ * `maxEntries` are kept, so keys taken from request paths cannot grow the
+ * map without bound.
+ */
+export class ResponseCache {
+  private _entries = new Map<string, CacheEntry>();
+
+  constructor(
+    private _ttlMs: number,
+    private _maxEntries = MAX_CACHE_ENTRIES,
+  ) {}
+
+  get size(): number {
+    return this._entries.size;
+  }
+
+  get(key: string, load: () => Promise<unknown>): Promise<unknown> {
+    const now = Date.now();
+    const cached = this._entries.get(key);
+    if (cached && cached.expiresAt > now) {
+      return cached.value;
+    }
+
+    this._evict(now);
+    const value = load();
+    // Re-inserting keeps the map in expiry order for `_evict`
+    this._entries.delete(key);
+    this._entries.set(key, { expiresAt: now + this._ttlMs, value });
+    value.catch(() => {
+      if (this._entries.get(key)?.value === value) {
+        this._entries.delete(key);
+      }
+    });
+    return value;
+  }
+
+  /**
+   * Drops expired entries and makes room for one more. Entries are in
+   * insertion order, which with a single TTL is also expiry order.
+   */
+  private _evict(now: number): void {
+    for (const [key, entry] of this._entries) {
+      if (entry.expiresAt > now && this._entries.size < this._maxEntries) {
+        break;
+      }
+      this._entries.delete(key);
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { isRateLimitError } from "./concurrency";
+
+export interface RetryOptions {
+  /** Total attempts, including the first one */
+  attempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Decides whether a failed attempt is worth repeating */
+  isRetryable: (error: unknown) => boolean;
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * An HTTP response with a non-success status, carrying the status so the retry
+ * policy can tell server-side hiccups from bad requests.
+ */
+export class HttpError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * A failure that will not go away by asking again, e.g. a malformed nonce.
+ */
+export class PermanentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentError";
+  }
+}
+
+export function describeError(error: unknown): string {
+  const reason = (error as { reason?: string })?.reason;
+  if (reason) {
+    return reason;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Classifies errors from RPC, Supabase and GitHub calls. Timeouts, rate limits,
+ * 5xx responses and dropped connections are retryable; invalid input, contract
+ * reverts and other 4xx responses are permanent. Anything unrecognised is
+ * treated as transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof PermanentError) {
+    return false;
+  }
+  if (isRateLimitError(error)) {
+    return true;
+  }
+
+  const err = error as {
+    status?: number;
+    code?: string;
+    error?: { message?: string };
+  };
+  if (typeof err?.status === "number") {
+    return isRetryableStatus(err.status);
+  }
+  if (/revert/i.test(err?.error?.message ?? "")) {
+    return false;
+  }
+  if (err?.code === "INVALID_ARGUMENT" || err?.code === "CALL_EXCEPTION") {
+    return false;
+  }
+  if (/invalid nonce/i.test(describeError(error))) {
+    return false;
+  }
+  return true;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  isRetryable: isRetryableError,
+};
+
+/**
+ * Runs `fn` until it succeeds, the error is permanent or the attempts run out.
+ * Delays grow exponentially from `baseDelayMs` with full jitter, capped at
+ * `maxDelayMs`.
+ *
+ * @param fn - The operation, given the 1-based attempt number
+ * @param options - Overrides for {@link DEFAULT_RETRY_OPTIONS}
+ * @returns The first successful result
+ * @throws The last error when no attempt succeeds
+ */
+export async function withRetry<T>(
+  fn: (attempt: number) => Promise<T>,
+  options: Partial<RetryOptions> = {},
+): Promise<T> {
+  const { attempts, baseDelayMs, maxDelayMs, isRetryable, onRetry } = {
+    ...DEFAULT_RETRY_OPTIONS,
+    ...options,
+  };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= attempts || !isRetryable(error)) {
+        throw error;
+      }
+      const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+      const delayMs = Math.round(Math.random() * ceiling);
+      onRetry?.(error, attempt, delayMs);
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
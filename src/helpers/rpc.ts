@@ -0,0 +1,104 @@
+import { providers } from "ethers";
+import { RateLimiter, RateLimitOptions } from "./concurrency";
+import { describeError, RetryOptions, withRetry } from "./retry";
+
+const RPC_TIMEOUT_MS = 15000;
+
+/**
+ * A contract revert is the chain's answer, not an endpoint failure: asking
+ * another endpoint would return the same revert.
+ */
+function isExecutionRevert(error: unknown): boolean {
+  const rpcError = (error as { error?: { message?: string } })?.error;
+  return /revert/i.test(rpcError?.message ?? "");
+}
+
+function describeEndpoint(url: string): string {
+  // Endpoint paths and query strings often carry API keys
+  try {
+    return new URL(url).host;
+  } catch {
+    return "invalid url";
+  }
+}
+
+/**
+ * JSON-RPC provider over an ordered list of endpoints. Requests go to the
+ * current endpoint and move down the list when it fails; the endpoint that
+ * answered last is kept for subsequent requests. Every request passes through
+ * the network's rate limiter, and a request that exhausts the whole list is
+ * retried with backoff.
+ */
+export class FallbackRpcProvider extends providers.StaticJsonRpcProvider {
+  private _endpoints: providers.StaticJsonRpcProvider[];
+  private _activeIndex = 0;
+  private _limiter: RateLimiter;
+
+  constructor(
+    readonly urls: string[],
+    readonly networkId: number,
+    rateLimit: RateLimitOptions,
+    private _retryOptions: Partial<RetryOptions> = {},
+  ) {
+    if (urls.length === 0) {
+      throw new Error(`No RPC endpoints configured for network ${networkId}`);
+    }
+    super({ url: urls[0], timeout: RPC_TIMEOUT_MS }, networkId);
+    this._endpoints = urls.map(
+      (url) =>
+        new providers.StaticJsonRpcProvider(
+          {
+            url,
+            timeout: RPC_TIMEOUT_MS,
+            // Surface 429s to the rate limiter instead of ethers' own retry loop
+            throttleCallback: async () => false,
+          },
+          networkId,
+        ),
+    );
+    this._limiter = new RateLimiter(rateLimit, `network ${networkId}`);
+  }
+
+  send(method: string, params: unknown[]): Promise<unknown> {
+    return withRetry(() => this._sendOnce(method, params), {
+      ...this._retryOptions,
+      onRetry: (error, attempt, delayMs) =>
+        console.warn(
+          `[RPC] Network ${this.networkId} ${method} attempt ${attempt} failed (${describeError(error)}), retrying in ${delayMs}ms`,
+        ),
+    });
+  }
+
+  private async _sendOnce(method: string, params: unknown[]): Promise<unknown> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt < this._endpoints.length; attempt++) {
+      const index = (this._activeIndex + attempt) % this._endpoints.length;
+      try {
+        const endpoint = this._endpoints[index];
+        const result = await this._limiter.schedule(() =>
+          endpoint.send(method, params),
+        );
+        if (index !== this._activeIndex) {
+          console.log(
+            `[RPC] Network ${this.networkId} switched to ${describeEndpoint(this.urls[index])}`,
+          );
+          this._activeIndex = index;
+        }
+        return result;
+      } catch (error) {
+        if (isExecutionRevert(error)) {
+          throw error;
+        }
+        lastError = error;
+        if (attempt < this._endpoints.length - 1) {
+          console.warn(
+            `[RPC] ${describeEndpoint(this.urls[index])} failed for ${method}: ${describeError(error)}`,
+          );
+        }
+      }
+    }
+
+    throw lastError;
+  }
+}
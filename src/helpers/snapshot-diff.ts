@@ -0,0 +1,269 @@
+import { BigNumber } from "ethers";
+import {
+  formatBigNumber,
+  formatMarkdownTable,
+  formatTokenAmount,
+  getTokenKey,
+  getTokenLabelsByKey,
+} from "./formatting";
+import { haveSameFilters, Snapshot, SnapshotPermit } from "./snapshot";
+import { PERMIT_STATUS_LABELS, PermitStatus } from "./status";
+
+/**
+ * How much one wallet owes or is owed in one token, before and after.
+ */
+export interface OwedDelta {
+  wallet: string;
+  userName?: string;
+  /** Token column (`<networkId>:<address>`), as in the totals tables */
+  token: string;
+  tokenDecimals: number;
+  previous: BigNumber;
+  current: BigNumber;
+  change: BigNumber;
+}
+
+export interface SnapshotDiff {
+  previousAt: string;
+  currentAt: string;
+  /** The runs used different filters, so not every change is real */
+  filtersDiffer: boolean;
+  /**
+   * Permits created after the previous run. Permits that were only missing
+   * from it, e.g. because their check failed, are not new.
+   */
+  newPermits: SnapshotPermit[];
+  /**
+   * Permits unclaimed in the previous run and claimed now, including `used`
+   * ones when the run had no event scan
+   */
+  claimedPermits: SnapshotPermit[];
+  /** Permits that were not expired in the previous run and are now */
+  expiredPermits: SnapshotPermit[];
+  partnerDeltas: OwedDelta[];
+  userDeltas: OwedDelta[];
+  /** Column labels keyed by token column, across both runs */
+  tokenLabels: Record<string, string>;
+}
+
+function sumOwed(
+  permits: SnapshotPermit[],
+  groupBy: (permit: SnapshotPermit) => string,
+): Map<string, { permit: SnapshotPermit; amount: BigNumber }> {
+  const owed = new Map<string, { permit: SnapshotPermit; amount: BigNumber }>();
+  for (const permit of permits) {
+    if (permit.status !== "claimable") {
+      continue;
+    }
+    const key = `${groupBy(permit).toLowerCase()}-${getTokenKey(permit)}`;
+    const entry = owed.get(key) ?? { permit, amount: BigNumber.from(0) };
+    entry.amount = entry.amount.add(formatTokenAmount(permit.amount));
+    owed.set(key, entry);
+  }
+  return owed;
+}
+
+function diffOwed(
+  previous: SnapshotPermit[],
+  current: SnapshotPermit[],
+  groupBy: "partner" | "user",
+): OwedDelta[] {
+  const wallet = (permit: SnapshotPermit) =>
+    groupBy === "partner" ? permit.partnerAddress : permit.userAddress;
+  const before = sumOwed(previous, wallet);
+  const after = sumOwed(current, wallet);
+
+  const deltas: OwedDelta[] = [];
+  for (const key of new Set([...before.keys(), ...after.keys()])) {
+    const { permit } = after.get(key) ?? before.get(key)!;
+    const previousAmount = before.get(key)?.amount ?? BigNumber.from(0);
+    const currentAmount = after.get(key)?.amount ?? BigNumber.from(0);
+    if (previousAmount.eq(currentAmount)) {
+      continue;
+    }
+    deltas.push({
+      wallet: wallet(permit),
+      ...(groupBy === "user" && { userName: permit.userName }),
+      token: getTokenKey(permit),
+      tokenDecimals: permit.tokenDecimals,
+      previous: previousAmount,
+      current: currentAmount,
+      change: currentAmount.sub(previousAmount),
+    });
+  }
+
+  return deltas.sort(
+    (a, b) =>
+      (a.userName ?? a.wallet).localeCompare(b.userName ?? b.wallet) ||
+      a.token.localeCompare(b.token),
+  );
+}
+
+// Without an event scan a claimed nonce is only known to be `used`
+function isClaimStatus(status: PermitStatus): boolean {
+  return status === "claimed" || status === "used";
+}
+
+/**
+ * Compares two snapshots by permit id.
+ *
+ * @param previous - The older run
+ * @param current - The newer run
+ * @returns New, claimed and expired permits and the change in owed amounts
+ */
+export function diffSnapshots(
+  previous: Snapshot,
+  current: Snapshot,
+): SnapshotDiff {
+  const previousById = new Map(previous.permits.map((p) => [p.id, p]));
+  const byId = (a: SnapshotPermit, b: SnapshotPermit) => a.id - b.id;
+
+  return {
+    previousAt: previous.generatedAt,
+    currentAt: current.generatedAt,
+    filtersDiffer: !haveSameFilters(previous, current),
+    newPermits: current.permits
+      .filter(
+        (permit) =>
+          !previousById.has(permit.id) &&
+          Date.parse(permit.created) > Date.parse(previous.generatedAt),
+      )
+      .sort(byId),
+    claimedPermits: current.permits
+      .filter((permit) => {
+        const before = previousById.get(permit.id);
+        return (
+          isClaimStatus(permit.status) &&
+          before &&
+          !isClaimStatus(before.status)
+        );
+      })
+      .sort(byId),
+    expiredPermits: current.permits
+      .filter((permit) => {
+        const before = previousById.get(permit.id);
+        return (
+          permit.status === "expired" && before && before.status !== "expired"
+        );
+      })
+      .sort(byId),
+    partnerDeltas: diffOwed(previous.permits, current.permits, "partner"),
+    userDeltas: diffOwed(previous.permits, current.permits, "user"),
+    tokenLabels: getTokenLabelsByKey([...previous.permits, ...current.permits]),
+  };
+}
+
+function formatChange(change: BigNumber, decimals: number): string {
+  const sign = change.isNegative() ? "-" : "+";
+  return `${sign}${formatBigNumber(change.abs(), decimals)}`;
+}
+
+function renderPermits(
+  title: string,
+  permits: SnapshotPermit[],
+  tokenLabels: Record<string, string>,
+): string {
+  if (permits.length === 0) {
+    return `## ${title}\n\nNone.\n`;
+  }
+
+  const table = formatMarkdownTable(
+    ["Permit ID", "User", "Partner", "Amount", "Token", "Status"],
+    permits.map((permit) => [
+      String(permit.id),
+      permit.userName ?? permit.userAddress,
+      permit.partnerAddress,
+      formatBigNumber(BigNumber.from(permit.amount), permit.tokenDecimals),
+      tokenLabels[getTokenKey(permit)],
+      PERMIT_STATUS_LABELS[permit.status],
+    ]),
+  );
+  return `## ${title} (${permits.length})\n\n${table}\n`;
+}
+
+function renderDeltas(
+  title: string,
+  deltas: OwedDelta[],
+  tokenLabels: Record<string, string>,
+): string {
+  if (deltas.length === 0) {
+    return `## ${title}\n\nNo change.\n`;
+  }
+
+  const hasUsers = deltas.some((delta) => delta.userName !== undefined);
+  const table = formatMarkdownTable(
+    [
+      ...(hasUsers ? ["User Name"] : []),
+      "Wallet",
+      "Token",
+      "Previous",
+      "Current",
+      "Change",
+    ],
+    deltas.map((delta) => [
+      ...(hasUsers ? [delta.userName ?? ""] : []),
+      delta.wallet,
+      tokenLabels[delta.token] ?? delta.token,
+      formatBigNumber(delta.previous, delta.tokenDecimals),
+      formatBigNumber(delta.current, delta.tokenDecimals),
+      formatChange(delta.change, delta.tokenDecimals),
+    ]),
+  );
+  return `## ${title}\n\n${table}\n`;
+}
+
+/**
+ * The diff as a markdown document.
+ */
+export function formatSnapshotDiff(diff: SnapshotDiff): string {
+  const sections = [
+    renderPermits("New Permits", diff.newPermits, diff.tokenLabels),
+    renderPermits(
+      "Claimed Since Previous Run",
+      diff.claimedPermits,
+      diff.tokenLabels,
+    ),
+    renderPermits("Newly Expired", diff.expiredPermits, diff.tokenLabels),
+    renderDeltas(
+      "Owed by Partner Wallet",
+      diff.partnerDeltas,
+      diff.tokenLabels,
+    ),
+    renderDeltas("Owed to User", diff.userDeltas, diff.tokenLabels),
+  ];
+  const warning = diff.filtersDiffer
+    ? "> The snapshots were taken with different filters, so some changes may only reflect the filters.\n\n"
+    : "";
+
+  return `# Pending Rewards Changes
+
+From ${diff.previousAt} to ${diff.currentAt}
+
+${warning}${sections.join("\n")}`;
+}
+
+/**
+ * The diff as plain JSON, with raw token amounts as strings.
+ */
+export function serializeSnapshotDiff(diff: SnapshotDiff) {
+  const serializeDelta = (delta: OwedDelta) => ({
+    wallet: delta.wallet,
+    ...(delta.userName !== undefined && { userName: delta.userName }),
+    token: delta.token,
+    previous: delta.previous.toString(),
+    current: delta.current.toString(),
+    change: delta.change.toString(),
+  });
+
+  return {
+    previousAt: diff.previousAt,
+    currentAt: diff.currentAt,
+    filtersDiffer: diff.filtersDiffer,
+    newPermits: diff.newPermits,
+    claimedPermits: diff.claimedPermits,
+    expiredPermits: diff.expiredPermits,
+    partnerDeltas: diff.partnerDeltas.map(serializeDelta),
+    userDeltas: diff.userDeltas.map(serializeDelta),
+    tokenLabels: diff.tokenLabels,
+  };
+}
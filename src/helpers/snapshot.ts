@@ -0,0 +1,207 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  writeFileSync,
+} from "fs";
+import * as path from "path";
+import { PendingRewardsReport } from "../types/report";
+import { PermitData } from "./formatting";
+import { PermitFilters } from "./supabase";
+
+const SNAPSHOT_VERSION = 1;
+const SNAPSHOT_FILE_PATTERN = /^snapshot-.+\.json$/;
+
+/**
+ * The fields of a checked permit needed to compare two runs.
+ */
+export type SnapshotPermit = Pick<
+  PermitData,
+  | "id"
+  | "nonce"
+  | "amount"
+  | "partnerAddress"
+  | "tokenAddress"
+  | "tokenSymbol"
+  | "tokenDecimals"
+  | "network"
+  | "userAddress"
+  | "userName"
+  | "deadline"
+  | "created"
+  | "status"
+>;
+
+/**
+ * The creation time window of a run as the user gave it, e.g. `30d`, so runs
+ * with the same relative window compare equal although their bounds moved.
+ */
+export interface SnapshotWindow {
+  since?: string;
+  until?: string;
+}
+
+/**
+ * The permits of one run, as saved between runs.
+ */
+export interface Snapshot {
+  version: number;
+  generatedAt: string;
+  /** Filters of the run; snapshots are only comparable under equal filters */
+  filters: PermitFilters;
+  /** Absent in snapshots that did not record it */
+  window?: SnapshotWindow;
+  permits: SnapshotPermit[];
+}
+
+export function createSnapshot(
+  report: PendingRewardsReport,
+  filters: PermitFilters,
+  window?: SnapshotWindow,
+): Snapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    generatedAt: report.generatedAt,
+    filters,
+    ...(window && { window }),
+    permits: report.permits.map((permit) => ({
+      id: permit.id,
+      nonce: permit.nonce,
+      amount: permit.amount,
+      partnerAddress: permit.partnerAddress,
+      tokenAddress: permit.tokenAddress,
+      tokenSymbol: permit.tokenSymbol,
+      tokenDecimals: permit.tokenDecimals,
+      network: permit.network,
+      userAddress: permit.userAddress,
+      userName: permit.userName,
+      deadline: permit.deadline,
+      created: permit.created,
+      status: permit.status,
+    })),
+  };
+}
+
+/**
+ * Writes a snapshot into `directory`, named after its time so that file names
+ * sort chronologically. The file is replaced atomically.
+ *
+ * @returns The path of the written file
+ */
+export function saveSnapshot(directory: string, snapshot: Snapshot): string {
+  mkdirSync(directory, { recursive: true });
+  const filePath = path.join(
+    directory,
+    `snapshot-${snapshot.generatedAt.replace(/[:.]/g, "-")}.json`,
+  );
+  const tempPath = `${filePath}.tmp`;
+  writeFileSync(tempPath, JSON.stringify(snapshot));
+  renameSync(tempPath, filePath);
+  return filePath;
+}
+
+/**
+ * @throws Error when the file is missing, unreadable or of another version
+ */
+export function readSnapshot(filePath: string): Snapshot {
+  let parsed: Snapshot;
+  try {
+    parsed = JSON.parse(readFileSync(filePath, "utf8")) as Snapshot;
+  } catch (error) {
+    throw new Error(
+      `Failed to read snapshot ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+  if (parsed.version !== SNAPSHOT_VERSION || !Array.isArray(parsed.permits)) {
+    throw new Error(
+      `Unsupported snapshot ${filePath}: version ${parsed.version}`,
+    );
+  }
+  return parsed;
+}
+
+/**
+ * The filters of a snapshot with its time window as given rather than
+ * resolved, falling back to the resolved bounds when no window was recorded.
+ */
+function getComparableFilters(snapshot: Snapshot) {
+  const { createdFrom, createdTo, ...filters } = snapshot.filters;
+  return {
+    ...filters,
+    window: snapshot.window ?? { since: createdFrom, until: createdTo },
+  };
+}
+
+/**
+ * Whether two snapshots were taken under the same filters, and so can be
+ * compared permit by permit. A relative window such as `--since 30d` matches
+ * itself on any day.
+ */
+export function haveSameFilters(a: Snapshot, b: Snapshot): boolean {
+  return (
+    JSON.stringify(getComparableFilters(a)) ===
+    JSON.stringify(getComparableFilters(b))
+  );
+}
+
+/**
+ * Picks the snapshots `diff` compares when fewer than two are given. One file
+ * is compared against the latest saved snapshot taken under the same filters;
+ * without files, the latest two saved snapshots with equal filters are used,
+ * so a one-off filtered run does not get compared against a full one.
+ *
+ * @param given - Snapshot files named on the command line (at most one)
+ * @param saved - Saved snapshot files, oldest first
+ * @returns The older and the newer file, or `null` when no pair matches
+ * @throws Error when a snapshot that has to be compared cannot be read
+ */
+export function pickSnapshotPair(
+  given: string[],
+  saved: string[],
+): [string, string] | null {
+  const snapshots = new Map<string, Snapshot>();
+  const read = (filePath: string) => {
+    let snapshot = snapshots.get(filePath);
+    if (!snapshot) {
+      snapshot = readSnapshot(filePath);
+      snapshots.set(filePath, snapshot);
+    }
+    return snapshot;
+  };
+
+  if (given.length === 1) {
+    const [file] = given;
+    const latest = [...saved]
+      .reverse()
+      .find(
+        (candidate) =>
+          path.resolve(candidate) !== path.resolve(file) &&
+          haveSameFilters(read(candidate), read(file)),
+      );
+    return latest ? [file, latest] : null;
+  }
+
+  for (let current = saved.length - 1; current > 0; current--) {
+    for (let previous = current - 1; previous >= 0; previous--) {
+      if (haveSameFilters(read(saved[previous]), read(saved[current]))) {
+        return [saved[previous], saved[current]];
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Snapshot files in `directory`, oldest first.
+ */
+export function listSnapshots(directory: string): string[] {
+  if (!existsSync(directory)) {
+    return [];
+  }
+  return readdirSync(directory)
+    .filter((name) => SNAPSHOT_FILE_PATTERN.test(name))
+    .sort()
+    .map((name) => path.join(directory, name));
+}
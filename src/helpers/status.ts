@@ -0,0 +1,103 @@
+import { BigNumber } from "ethers";
+
+/**
+ * Where a permit stands for treasury purposes:
+ * - `claimed`: the event scan found the transfer that used the nonce
+ * - `used`: the nonce is used, but no event scan told a claim from an invalidation
+ * - `claimable`: the nonce is unused and the signature deadline has not passed
+ * - `expired`: the nonce is unused but the deadline has passed, so it can no longer be claimed
+ * - `invalidated`: the partner burned the nonce with `invalidateUnorderedNonces`
+ */
+export type PermitStatus =
+  | "claimed"
+  | "used"
+  | "claimable"
+  | "expired"
+  | "invalidated";
+
+export const PERMIT_STATUSES: PermitStatus[] = [
+  "claimable",
+  "expired",
+  "invalidated",
+  "claimed",
+  "used",
+];
+
+export const PERMIT_STATUS_LABELS: Record<PermitStatus, string> = {
+  claimable: "Claimable",
+  expired: "Expired (unclaimed)",
+  invalidated: "Invalidated",
+  claimed: "Claimed",
+  used: "Used (unverified)",
+};
+
+/**
+ * Parses a permit deadline into unix seconds. The column holds the signed
+ * uint256 deadline as a decimal string; ISO dates are accepted as well.
+ *
+ * @returns The deadline in seconds, or `null` when it cannot be parsed
+ */
+export function parseDeadline(deadline: string): BigNumber | null {
+  if (/^\d+$/.test(deadline)) {
+    return BigNumber.from(deadline);
+  }
+  const millis = Date.parse(deadline);
+  return Number.isNaN(millis)
+    ? null
+    : BigNumber.from(Math.floor(millis / 1000));
+}
+
+// Beyond what Date can represent; permits signed "forever" use uint256 max
+const MAX_DATE_SECONDS = 8.64e12;
+
+/**
+ * Renders a permit deadline as a UTC date for people to read.
+ */
+export function formatDeadline(deadline: string): string {
+  const seconds = parseDeadline(deadline);
+  if (!seconds) {
+    return deadline;
+  }
+  if (seconds.gt(MAX_DATE_SECONDS)) {
+    return "never";
+  }
+  return new Date(seconds.toNumber() * 1000).toISOString().slice(0, 10);
+}
+
+/**
+ * Classifies a checked permit.
+ *
+ * @param isNonceUsed - Whether the nonce bit is set on Permit2
+ * @param deadline - The permit deadline, as stored in the database
+ * @param now - Current time in unix seconds
+ * @param claimSource - How the used nonce was consumed, when the event scan found out
+ */
+export function classifyPermit(
+  isNonceUsed: boolean,
+  deadline: string,
+  now: number,
+  claimSource: ClaimSource | null = null,
+): PermitStatus {
+  if (isNonceUsed) {
+    if (claimSource === "transfer") {
+      return "claimed";
+    }
+    return claimSource === "invalidation" ? "invalidated" : "used";
+  }
+  const deadlineSeconds = parseDeadline(deadline);
+  if (deadlineSeconds && deadlineSeconds.lt(now)) {
+    return "expired";
+  }
+  return "claimable";
+}
+
+/**
+ * How a used nonce was consumed: by a `permitTransferFrom` that moved the
+ * tokens, or by the partner calling `invalidateUnorderedNonces`.
+ */
+export type ClaimSource = "transfer" | "invalidation";
+
+export const CLAIM_SOURCE_LABELS: Record<ClaimSource, string> = {
+  transfer: "claimed by transfer",
+  invalidation: "invalidated by partner",
+};
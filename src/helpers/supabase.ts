@@ -1,6 +1,9 @@
 import { SupabaseClient } from "@supabase/supabase-js";
+import { utils } from "ethers";
 import { Database } from "../types/database";
+import { getRetryOptions } from "./config";
 import { Logger } from "./logger";
+import { describeError, HttpError, withRetry } from "./retry";
 
 export interface SupabaseError {
   message: string;
@@ -10,8 +13,16 @@ export interface SupabaseError {
 }
 
 export interface PermitRow {
+  id: number;
   nonce: string;
   amount: string;
+  deadline: string;
+  /** When the permit was generated */
+  created: string;
+  /** The partner's Permit2 signature over the permit */
+  signature: string;
+  /** Hash of the claim transaction, as recorded by the claim UI */
+  transaction: string | null;
   partners: {
     wallets: {
       address: string | null;
@@ -27,64 +38,167 @@ export interface PermitRow {
       address: string | null;
     };
   };
+  /** The GitHub issue or pull request the permit was generated for */
+  locations: {
+    organization_id: number | null;
+    repository_id: number | null;
+    issue_id: number | null;
+    node_url: string | null;
+  } | null;
+}
+
+export interface PermitFilters {
+  /** Partner wallets to include; all partners when empty */
+  partnerWallets?: string[];
+  /** GitHub user id of the beneficiary */
+  beneficiaryId?: number;
+  /** Wallet address of the beneficiary */
+  beneficiaryWallet?: string;
+  /** Network ids to include; all networks when empty */
+  networks?: number[];
+  /** Token contract addresses to include; all tokens when empty */
+  tokenAddresses?: string[];
+  /** GitHub organization ids of the permit's location */
+  organizationIds?: number[];
+  /** GitHub repository ids of the permit's location */
+  repositoryIds?: number[];
+  /** Only permits created at or after this ISO timestamp */
+  createdFrom?: string;
+  /** Only permits created before this ISO timestamp */
+  createdTo?: string;
 }
 
 const BATCH_SIZE = 1000;
 
 /**
- * Fetches all permits from the database using pagination to overcome Supabase's default 1000 row limit.
- * This function will automatically fetch all available permits by making multiple requests in batches.
+ * The checksummed and lowercase form of each address, since `in` compares
+ * exactly and wallets are stored in either form.
+ */
+function withAddressCasings(addresses: string[]): string[] {
+  return Array.from(
+    new Set(
+      addresses.flatMap((address) =>
+        utils.isAddress(address)
+          ? [utils.getAddress(address), address.toLowerCase()]
+          : [address],
+      ),
+    ),
+  );
+}
+
+function selectPermits(supabase: SupabaseClient<Database>) {
+  return supabase
+    .from("permits")
+    .select(
+      "id,nonce,partners(wallets(address)),tokens(address,network),users:beneficiary_id(id,wallets(address)),locations(organization_id,repository_id,issue_id,node_url),amount,deadline,created,signature,transaction",
+    )
+    .not("users", "is", null);
+}
+
+type PermitQuery = ReturnType<typeof selectPermits>;
+
+/**
+ * Applies every filter except the partner allowlist.
+ */
+function applyFilters(query: PermitQuery, filters: PermitFilters): PermitQuery {
+  if (filters.beneficiaryId !== undefined) {
+    query = query.eq("beneficiary_id", filters.beneficiaryId);
+  }
+
+  if (filters.beneficiaryWallet) {
+    query = query
+      .filter("users.wallets.address", "ilike", filters.beneficiaryWallet)
+      .not("users.wallets", "is", null);
+  }
+
+  if (filters.networks && filters.networks.length > 0) {
+    query = query
+      .in("tokens.network", filters.networks)
+      .not("tokens", "is", null);
+  }
+
+  if (filters.tokenAddresses && filters.tokenAddresses.length > 0) {
+    query = query
+      .in("tokens.address", withAddressCasings(filters.tokenAddresses))
+      .not("tokens", "is", null);
+  }
+
+  if (filters.organizationIds && filters.organizationIds.length > 0) {
+    query = query
+      .in("locations.organization_id", filters.organizationIds)
+      .not("locations", "is", null);
+  }
+
+  if (filters.repositoryIds && filters.repositoryIds.length > 0) {
+    query = query
+      .in("locations.repository_id", filters.repositoryIds)
+      .not("locations", "is", null);
+  }
+
+  if (filters.createdFrom) {
+    query = query.gte("created", filters.createdFrom);
+  }
+
+  if (filters.createdTo) {
+    query = query.lt("created", filters.createdTo);
+  }
+
+  return query;
+}
+
+/**
+ * Reads every row of a query in pages of `BATCH_SIZE`, retrying failed pages.
  *
- * @param supabase - The Supabase client instance
- * @param logger - Logger instance for progress updates
- * @param partnerWalletAllowlist - The list of allowed wallets
- * @returns Promise resolving to all permits or an error
+ * @param buildQuery - Returns a fresh query for each page
+ * @param fetchedBefore - Rows fetched by earlier queries, for progress only
  */
-export async function fetchAllPermits(
-  supabase: SupabaseClient<Database>,
+async function fetchPages(
   logger: Logger,
-  partnerWalletAllowlist?: string[],
+  buildQuery: () => PermitQuery,
+  fetchedBefore = 0,
 ): Promise<{ data: PermitRow[] | null; error: SupabaseError | null }> {
-  const allowlistSet = partnerWalletAllowlist
-    ? new Set(partnerWalletAllowlist.filter((a) => a.length > 0))
-    : null;
   let allPermits: PermitRow[] = [];
   let hasMore = true;
   let currentPage = 0;
-  let totalFetched = 0;
+  let lastError: SupabaseError | null = null;
 
-  // Paginate through all permits in batches of 1000
   while (hasMore) {
     const startRange = currentPage * BATCH_SIZE;
     const endRange = startRange + BATCH_SIZE - 1;
 
     logger.updateSpinner(
-      `Fetching permits (${totalFetched} fetched so far)...`,
+      `Fetching permits (${fetchedBefore + allPermits.length} fetched so far)...`,
     );
 
-    let query = supabase
-      .from("permits")
-      .select(
-        "nonce,partners(wallets(address)),tokens(address,network),users:beneficiary_id(id,wallets(address)),amount",
-      )
-      .not("partners", "is", null)
-      .not("tokens", "is", null)
-      .not("users", "is", null)
-      .range(startRange, endRange)
-      .order("id");
-
-    if (allowlistSet && allowlistSet.size > 0) {
-      query = query.filter(
-        "partners.wallets.address",
-        "in",
-        `(${Array.from(allowlistSet).join(",")})`,
-      );
-    }
-
-    const { data, error } = await query;
+    const query = buildQuery().range(startRange, endRange).order("id");
 
-    if (error) {
-      return { data: null, error };
+    let data: PermitRow[] | null;
+    try {
+      data = await withRetry(
+        async () => {
+          const response = await query;
+          if (response.error) {
+            lastError = response.error;
+            // PostgREST reports status 0 when the request never got a response
+            throw response.status > 0
+              ? new HttpError(response.error.message, response.status)
+              : new Error(response.error.message);
+          }
+          return response.data;
+        },
+        {
+          ...getRetryOptions(),
+          onRetry: (error, attempt, delayMs) =>
+            logger.warning(
+              `Permit page ${currentPage + 1} attempt ${attempt} failed (${describeError(error)}), retrying in ${delayMs}ms`,
+            ),
+        },
+      );
+    } catch (error) {
+      return {
+        data: null,
+        error: lastError ?? { message: describeError(error) },
+      };
     }
 
     if (!data || data.length === 0) {
@@ -93,7 +207,6 @@ export async function fetchAllPermits(
     }
 
     allPermits = allPermits.concat(data);
-    totalFetched += data.length;
 
     // If we got less than BATCH_SIZE, we've reached the end
     if (data.length < BATCH_SIZE) {
@@ -105,3 +218,145 @@ export async function fetchAllPermits(
 
   return { data: allPermits, error: null };
 }
+
+/**
+ * Fetches all permits from the database using pagination to overcome Supabase's default 1000 row limit.
+ * This function will automatically fetch all available permits by making multiple requests in batches.
+ *
+ * Permits without a partner, or whose partner has no wallet, cannot match the
+ * partner allowlist. They are fetched by separate queries under the other
+ * filters, so that they reach the data quality check instead of disappearing.
+ *
+ * @param supabase - The Supabase client instance
+ * @param logger - Logger instance for progress updates
+ * @param filters - Server-side filters applied to every page
+ * @returns Promise resolving to all permits, ordered by id, or an error
+ */
+export async function fetchAllPermits(
+  supabase: SupabaseClient<Database>,
+  logger: Logger,
+  filters: PermitFilters = {},
+): Promise<{ data: PermitRow[] | null; error: SupabaseError | null }> {
+  const partnerWallets = (filters.partnerWallets ?? []).filter(
+    (address) => address.length > 0,
+  );
+  const queries: (() => PermitQuery)[] = [
+    () => {
+      let query = applyFilters(selectPermits(supabase), filters).not(
+        "partners",
+        "is",
+        null,
+      );
+      if (partnerWallets.length > 0) {
+        query = query
+          .filter(
+            "partners.wallets.address",
+            "in",
+            `(${withAddressCasings(partnerWallets).join(",")})`,
+          )
+          // Drop rows whose partner wallet was filtered out instead of returning it as null
+          .not("partners.wallets", "is", null);
+      }
+      return query;
+    },
+    () => applyFilters(selectPermits(supabase), filters).is("partner_id", null),
+  ];
+  if (partnerWallets.length > 0) {
+    // Without an allowlist the first query already returns these
+    queries.push(() =>
+      applyFilters(selectPermits(supabase), filters)
+        .is("partners.wallet_id", null)
+        .not("partners", "is", null),
+    );
+  }
+
+  const allPermits: PermitRow[] = [];
+  for (const buildQuery of queries) {
+    const { data, error } = await fetchPages(
+      logger,
+      buildQuery,
+      allPermits.length,
+    );
+    if (error) {
+      return { data: null, error };
+    }
+    allPermits.push(...data!);
+  }
+
+  return { data: allPermits.sort((a, b) => a.id - b.id), error: null };
+}
+
+export interface TransactionUpdate {
+  permitId: number;
+  transaction: string;
+}
+
+export interface TransactionWriteResult {
+  /** Permits whose `transaction` was set */
+  updated: number[];
+  /** Permits whose `transaction` was filled in by someone else meanwhile */
+  unchanged: number[];
+  failed: { permitId: number; reason: string }[];
+}
+
+const WRITE_BATCH_SIZE = 50;
+
+/**
+ * Records claim transactions in `permits.transaction`, `WRITE_BATCH_SIZE`
+ * rows at a time. A row is only written while its `transaction` is still
+ * null, so a hash recorded by the claim UI is never overwritten.
+ *
+ * Every row is its own `PATCH`: rows carry different hashes and each needs
+ * its own `transaction is null` guard, which PostgREST cannot express as one
+ * multi-row update (an upsert would overwrite without the guard). The batches
+ * only bound how many of those requests run at once.
+ *
+ * @param supabase - The Supabase client instance
+ * @param logger - Logger instance for progress updates
+ * @param updates - Transaction hash to record per permit
+ * @returns Which permits were updated, left alone or failed
+ */
+export async function updatePermitTransactions(
+  supabase: SupabaseClient<Database>,
+  logger: Logger,
+  updates: TransactionUpdate[],
+): Promise<TransactionWriteResult> {
+  const result: TransactionWriteResult = {
+    updated: [],
+    unchanged: [],
+    failed: [],
+  };
+
+  for (let start = 0; start < updates.length; start += WRITE_BATCH_SIZE) {
+    const batch = updates.slice(start, start + WRITE_BATCH_SIZE);
+    logger.updateSpinner(
+      `Writing transactions (${start}/${updates.length} rows)...`,
+    );
+
+    await Promise.all(
+      batch.map(async ({ permitId, transaction }) => {
+        try {
+          const rows = await withRetry(async () => {
+            const response = await supabase
+              .from("permits")
+              .update({ transaction })
+              .eq("id", permitId)
+              .is("transaction", null)
+              .select("id");
+            if (response.error) {
+              throw response.status > 0
+                ? new HttpError(response.error.message, response.status)
+                : new Error(response.error.message);
+            }
+            return response.data;
+          }, getRetryOptions());
+          (rows.length > 0 ? result.updated : result.unchanged).push(permitId);
+        } catch (error) {
+          result.failed.push({ permitId, reason: describeError(error) });
+        }
+      }),
+    );
+  }
+
+  return result;
+}
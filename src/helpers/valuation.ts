@@ -0,0 +1,149 @@
+import { BigNumber, utils } from "ethers";
+import { readFileSync } from "fs";
+
+export const UNPRICED_MARKER = "unpriced";
+
+export interface TokenRef {
+  network: number;
+  address: string;
+  symbol: string;
+}
+
+/**
+ * A source of USD prices for tokens. Returns `null` when the token has no price,
+ * so the report can flag it instead of silently valuing it at zero.
+ */
+export interface PriceSource {
+  readonly name: string;
+  getUsdPrice(token: TokenRef): Promise<number | null>;
+}
+
+export interface UsdValuation {
+  usd: number;
+  unpricedTokens: string[];
+}
+
+/**
+ * Price source used when no price file is configured: every token is unpriced.
+ */
+export class NoPriceSource implements PriceSource {
+  readonly name = "none";
+
+  async getUsdPrice(): Promise<number | null> {
+    return null;
+  }
+}
+
+/**
+ * Reads USD prices from a static JSON file for offline runs. Keys are either
+ * `<networkId>:<tokenAddress>` or a bare token symbol, e.g.
+ * `{ "100:0xe91d153e0b41518a2ce8dd3d7944fa863463a97d": 1, "UUSD": 1 }`.
+ * Address keys take precedence over symbol keys.
+ */
+export class StaticPriceFileSource implements PriceSource {
+  readonly name: string;
+  private _prices = new Map<string, number>();
+
+  constructor(filePath: string) {
+    this.name = `file:${filePath}`;
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(readFileSync(filePath, "utf8"));
+    } catch (error) {
+      throw new Error(
+        `Failed to read price file ${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      throw new Error(`Price file ${filePath} must contain a JSON object`);
+    }
+
+    for (const [key, value] of Object.entries(parsed)) {
+      if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+        throw new Error(`Invalid price for "${key}" in ${filePath}: ${value}`);
+      }
+      this._prices.set(key.toLowerCase(), value);
+    }
+  }
+
+  async getUsdPrice(token: TokenRef): Promise<number | null> {
+    const byAddress = this._prices.get(
+      `${token.network}:${token.address}`.toLowerCase(),
+    );
+    if (byAddress !== undefined) {
+      return byAddress;
+    }
+    return this._prices.get(token.symbol.toLowerCase()) ?? null;
+  }
+}
+
+export function createPriceSource(priceFile?: string): PriceSource {
+  return priceFile ? new StaticPriceFileSource(priceFile) : new NoPriceSource();
+}
+
+/**
+ * Looks up the USD price of every token column.
+ *
+ * @param tokens - Tokens to price, keyed by token column
+ * @param source - Where prices come from
+ * @returns USD price (or `null` when unpriced) keyed by token column
+ */
+export async function resolveTokenPrices(
+  tokens: Record<string, TokenRef>,
+  source: PriceSource,
+): Promise<Record<string, number | null>> {
+  const prices: Record<string, number | null> = {};
+  await Promise.all(
+    Object.entries(tokens).map(async ([tokenKey, token]) => {
+      prices[tokenKey] = await source.getUsdPrice(token);
+    }),
+  );
+  return prices;
+}
+
+/**
+ * Converts per-token totals into a single USD value, keeping track of the
+ * tokens that could not be valued.
+ */
+export function valueTokenTotals(
+  tokenTotals: Record<string, BigNumber>,
+  tokenDecimals: Record<string, number>,
+  prices: Record<string, number | null>,
+): UsdValuation {
+  let usd = 0;
+  const unpricedTokens: string[] = [];
+
+  for (const [tokenKey, amount] of Object.entries(tokenTotals)) {
+    if (amount.isZero()) {
+      continue;
+    }
+    const price = prices[tokenKey];
+    if (price === null || price === undefined) {
+      unpricedTokens.push(tokenKey);
+      continue;
+    }
+    const units = Number(
+      utils.formatUnits(amount, tokenDecimals[tokenKey] ?? 18),
+    );
+    usd += units * price;
+  }
+
+  return { usd, unpricedTokens };
+}
+
+export function formatUsd(valuation: UsdValuation): string {
+  const hasPricedValue = valuation.usd > 0;
+  if (!hasPricedValue && valuation.unpricedTokens.length > 0) {
+    return UNPRICED_MARKER;
+  }
+
+  const formatted = `$${valuation.usd.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+  return valuation.unpricedTokens.length > 0
+    ? `${formatted} + ${UNPRICED_MARKER}`
+    : formatted;
+}
@@ -1,59 +1,79 @@
 import { BigNumber, Contract, providers } from "ethers";
 import { ContractAbi } from "../types/permit2";
+import {
+  getMulticallBatchSize,
+  getRetryOptions,
+  getRpcRateLimit,
+  getRpcUrls,
+} from "./config";
+import { MulticallBatcher } from "./multicall";
+import { getNetworkName } from "./networks";
+import { PermanentError } from "./retry";
+import { FallbackRpcProvider } from "./rpc";
 
 export const ERC20_ABI = [
   "function symbol() view returns (string)",
   "function name() view returns (string)",
   "function decimals() view returns (uint8)",
   "function balanceOf(address) view returns (uint256)",
+  "function allowance(address,address) view returns (uint256)",
 ];
 
 const providerCache = new Map<number, providers.JsonRpcProvider>();
-const contractCache = new Map<string, Contract>();
 
-function getProvider(networkId: number): providers.JsonRpcProvider {
+export interface TokenMetadata {
+  symbol: string;
+  decimals: number;
+}
+
+export function getProvider(networkId: number): providers.JsonRpcProvider {
   const cached = providerCache.get(networkId);
   if (cached) {
     return cached;
   }
 
-  const rpcUrl = `https://rpc.ubq.fi/${networkId}`;
-
-  // Create provider with timeout settings
-  const provider = new providers.JsonRpcProvider({
-    url: rpcUrl,
-    timeout: 15000, // 15 second timeout
-  });
+  const rpcUrls = getRpcUrls(networkId);
+  const provider = new FallbackRpcProvider(
+    rpcUrls,
+    networkId,
+    getRpcRateLimit(networkId),
+    getRetryOptions()
+  );
 
   providerCache.set(networkId, provider);
-  console.log(`[RPC] Connected to network ${networkId}: ${rpcUrl}`);
+  console.log(
+    `[RPC] Connected to ${getNetworkName(networkId)} (${rpcUrls.length} endpoint${
+      rpcUrls.length === 1 ? "" : "s"
+    })`
+  );
   return provider;
 }
 
-export function getContract(
-  address: string,
-  abi: ContractAbi | string[],
-  networkId: number
-): Contract {
-  const cacheKey = `${address}-${networkId}`;
-  const cached = contractCache.get(cacheKey);
-  if (cached) {
-    return cached;
-  }
-
-  const provider = getProvider(networkId);
-  const contract = new Contract(address, abi, provider);
-  contractCache.set(cacheKey, contract);
-  return contract;
+function read<T>(
+  contract: Contract,
+  multicall: MulticallBatcher | null | undefined,
+  method: string,
+  args: unknown[] = []
+): Promise<T> {
+  return multicall
+    ? multicall.call<T>(contract, method, args)
+    : contract[method](...args);
 }
 
 export class Erc20Wrapper {
-  constructor(private _contract: Contract) {}
+  constructor(
+    private _contract: Contract,
+    private _multicall?: MulticallBatcher | null
+  ) {}
 
   async symbol(): Promise<string> {
     try {
       const startTime = Date.now();
-      const symbol = await this._contract.symbol();
+      const symbol = await read<string>(
+        this._contract,
+        this._multicall,
+        "symbol"
+      );
       const duration = Date.now() - startTime;
 
       if (duration > 3000) {
@@ -71,7 +91,7 @@ export class Erc20Wrapper {
 
   async name(): Promise<string> {
     try {
-      return await this._contract.name();
+      return await read<string>(this._contract, this._multicall, "name");
     } catch (error) {
       console.error("Error fetching token name:", error);
       return "Unknown Token";
@@ -80,38 +100,214 @@ export class Erc20Wrapper {
 
   async decimals(): Promise<number> {
     try {
-      return await this._contract.decimals();
+      return await read<number>(
+        this._contract,
+        this._multicall,
+        "decimals"
+      );
     } catch (error) {
       console.error("Error fetching token decimals:", error);
       return 18;
     }
   }
+
+  async balanceOf(owner: string): Promise<BigNumber> {
+    const balance = await read<BigNumber>(
+      this._contract,
+      this._multicall,
+      "balanceOf",
+      [owner]
+    );
+    return BigNumber.from(balance);
+  }
+
+  async allowance(owner: string, spender: string): Promise<BigNumber> {
+    const allowance = await read<BigNumber>(
+      this._contract,
+      this._multicall,
+      "allowance",
+      [owner, spender]
+    );
+    return BigNumber.from(allowance);
+  }
+}
+
+/**
+ * Contracts, Multicall3 batchers and token metadata on top of a provider per
+ * network, each created once and cached. The module-level helpers share a
+ * client over the configured RPC endpoints; library callers can bring their own
+ * providers.
+ */
+export class ChainClient {
+  private _contracts = new Map<string, Contract>();
+  private _multicalls = new Map<number, MulticallBatcher | null>();
+  private _tokenMetadata = new Map<string, Promise<TokenMetadata>>();
+
+  constructor(
+    readonly getProvider: (networkId: number) => providers.Provider
+  ) {}
+
+  /**
+   * Whether a provider can be created for a network. The default providers
+   * refuse networks without RPC endpoints; injected ones may refuse any
+   * network they do not serve.
+   */
+  hasNetwork(networkId: number): boolean {
+    try {
+      this.getProvider(networkId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  getContract(
+    address: string,
+    abi: ContractAbi | string[],
+    networkId: number
+  ): Contract {
+    const cacheKey = `${address}-${networkId}`;
+    const cached = this._contracts.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const contract = new Contract(address, abi, this.getProvider(networkId));
+    this._contracts.set(cacheKey, contract);
+    return contract;
+  }
+
+  /**
+   * Returns the Multicall3 batcher for a network, or `null` when aggregation is
+   * disabled for it through the batch size configuration.
+   */
+  getMulticall(networkId: number): MulticallBatcher | null {
+    if (this._multicalls.has(networkId)) {
+      return this._multicalls.get(networkId)!;
+    }
+
+    const batchSize = getMulticallBatchSize(networkId);
+    const batcher =
+      batchSize > 0
+        ? new MulticallBatcher(this.getProvider(networkId), batchSize)
+        : null;
+    this._multicalls.set(networkId, batcher);
+    return batcher;
+  }
+
+  getErc20(address: string, networkId: number): Erc20Wrapper {
+    return new Erc20Wrapper(
+      this.getContract(address, ERC20_ABI, networkId),
+      this.getMulticall(networkId)
+    );
+  }
+
+  getPermit2(
+    address: string,
+    abi: ContractAbi,
+    networkId: number
+  ): Permit2Wrapper {
+    return new Permit2Wrapper(
+      this.getContract(address, abi, networkId),
+      this.getMulticall(networkId)
+    );
+  }
+
+  /**
+   * Fetches a token's symbol and decimals once per (network, address) and
+   * caches the result for the lifetime of the client.
+   */
+  getTokenMetadata(address: string, networkId: number): Promise<TokenMetadata> {
+    const cacheKey = `${networkId}-${address.toLowerCase()}`;
+    const cached = this._tokenMetadata.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const erc20Wrapper = this.getErc20(address, networkId);
+    const metadata = Promise.all([
+      erc20Wrapper.symbol(),
+      erc20Wrapper.decimals(),
+    ]).then(([symbol, decimals]) => ({ symbol, decimals: Number(decimals) }));
+    this._tokenMetadata.set(cacheKey, metadata);
+    return metadata;
+  }
+}
+
+let defaultClient: ChainClient | null = null;
+
+/**
+ * The client over the RPC endpoints configured through the environment.
+ */
+export function getDefaultChainClient(): ChainClient {
+  if (!defaultClient) {
+    defaultClient = new ChainClient(getProvider);
+  }
+  return defaultClient;
+}
+
+/**
+ * Splits an unordered Permit2 nonce into its bitmap word and bit position.
+ */
+export function getNonceBitmapPosition(nonce: string | number): {
+  wordPos: BigNumber;
+  bitPos: number;
+} {
+  let nonceBigNumber: BigNumber;
+
+  try {
+    // Handle large nonce values properly
+    if (typeof nonce === "string") {
+      // If it's already a decimal string, use it directly
+      // Remove any trailing decimals if present
+      const cleanNonce = nonce.includes(".") ? nonce.split(".")[0] : nonce;
+      nonceBigNumber = BigNumber.from(cleanNonce);
+    } else {
+      nonceBigNumber = BigNumber.from(nonce);
+    }
+  } catch (error) {
+    console.error(`Failed to parse nonce ${nonce}:`, error);
+    throw new PermanentError(`Invalid nonce value: ${nonce}`);
+  }
+
+  const wordPos = nonceBigNumber.shr(8);
+  const bitPos = nonceBigNumber.and(255).toNumber();
+  return { wordPos, bitPos };
 }
 
 export class Permit2Wrapper {
-  constructor(private _contract: Contract) {}
+  constructor(
+    private _contract: Contract,
+    private _multicall?: MulticallBatcher | null
+  ) {}
 
   nonceBitmap(nonce: string | number): { wordPos: BigNumber; bitPos: number } {
-    let nonceBigNumber: BigNumber;
+    return getNonceBitmapPosition(nonce);
+  }
 
-    try {
-      // Handle large nonce values properly
-      if (typeof nonce === "string") {
-        // If it's already a decimal string, use it directly
-        // Remove any trailing decimals if present
-        const cleanNonce = nonce.includes(".") ? nonce.split(".")[0] : nonce;
-        nonceBigNumber = BigNumber.from(cleanNonce);
-      } else {
-        nonceBigNumber = BigNumber.from(nonce);
-      }
-    } catch (error) {
-      console.error(`Failed to parse nonce ${nonce}:`, error);
-      throw new Error(`Invalid nonce value: ${nonce}`);
+  async fetchBitmap(owner: string, wordPos: BigNumber): Promise<BigNumber> {
+    const startTime = Date.now();
+    const bitmap = await read<BigNumber>(
+      this._contract,
+      this._multicall,
+      "nonceBitmap",
+      [owner, wordPos]
+    );
+    const duration = Date.now() - startTime;
+
+    if (duration > 5000) {
+      console.log(
+        `[Permit2] Slow RPC call (${duration}ms) for word ${wordPos.toString()}`
+      );
     }
 
-    const wordPos = nonceBigNumber.shr(8);
-    const bitPos = nonceBigNumber.and(255).toNumber();
-    return { wordPos, bitPos };
+    return BigNumber.from(bitmap);
+  }
+
+  static isBitSet(bitmap: BigNumber, bitPos: number): boolean {
+    const bit = BigNumber.from(1).shl(bitPos);
+    const flipped = bitmap.xor(bit);
+    return bit.and(flipped).eq(0);
   }
 
   async isNonceClaimed(
@@ -120,22 +316,8 @@ export class Permit2Wrapper {
   ): Promise<boolean> {
     try {
       const { wordPos, bitPos } = this.nonceBitmap(nonce);
-
-      const startTime = Date.now();
-      const bitmap = await this._contract.nonceBitmap(owner, wordPos);
-      const duration = Date.now() - startTime;
-
-      if (duration > 5000) {
-        console.log(
-          `[Permit2] Slow RPC call (${duration}ms) for nonce ${nonce}`
-        );
-      }
-
-      const bit = BigNumber.from(1).shl(bitPos);
-      const flipped = BigNumber.from(bitmap).xor(bit);
-      const isClaimed = bit.and(flipped).eq(0);
-
-      return isClaimed;
+      const bitmap = await this.fetchBitmap(owner, wordPos);
+      return Permit2Wrapper.isBitSet(bitmap, bitPos);
     } catch (error) {
       console.error(
         `[Permit2] Error checking nonce ${nonce} for owner ${owner}:`,
@@ -1,35 +1,94 @@
 import { createClient } from "@supabase/supabase-js";
-import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
-import { Contract } from "ethers";
+import { utils } from "ethers";
 import { writeFileSync } from "fs";
 import * as path from "path";
-import permit2AbiJson from "./abi/permit2.json";
-import { getPartnerAllowlist } from "./helpers/config";
+import packageJson from "../package.json";
+import { CliError, CliOptions, parseCliArgs, USAGE } from "./helpers/cli";
 import {
-  calculateUserWalletTotals,
-  calculateWalletTotals,
-  generateUserRewardsTable,
-  generateWalletTotalsTable,
-  getAllUniqueTokensFromMaps,
-  PermitData,
-} from "./helpers/formatting";
-import { fetchGitHubUsernames } from "./helpers/github";
-import { Logger } from "./helpers/logger";
-import { fetchAllPermits, PermitRow } from "./helpers/supabase";
+  getNonceCacheFile,
+  getPartnerAllowlist,
+  getServeCacheTtlMs,
+  getSnapshotDir,
+} from "./helpers/config";
+import { fetchGitHubUserByLogin, fetchGitHubUsername } from "./helpers/github";
+import { formatPermitDetails } from "./helpers/formatting";
+import { Logger, QuietLogger } from "./helpers/logger";
+import { ClaimedNonceCache } from "./helpers/nonce-cache";
 import {
-  ERC20_ABI,
-  Erc20Wrapper,
-  getContract,
-  Permit2Wrapper,
-} from "./helpers/web3";
+  resolveOrganizationIds,
+  resolveRepositoryIds,
+} from "./helpers/repository";
+import { describeError } from "./helpers/retry";
+import {
+  createSnapshot,
+  listSnapshots,
+  pickSnapshotPair,
+  readSnapshot,
+  saveSnapshot,
+} from "./helpers/snapshot";
+import {
+  diffSnapshots,
+  formatSnapshotDiff,
+  serializeSnapshotDiff,
+} from "./helpers/snapshot-diff";
+import { PERMIT_STATUS_LABELS, PERMIT_STATUSES } from "./helpers/status";
+import { createPriceSource } from "./helpers/valuation";
+import { PermitFilters } from "./helpers/supabase";
+import { checkPendingRewards } from "./lib";
+import { createPendingRewardsServer, startServer } from "./server";
 import { Database } from "./types/database";
-import { ContractAbi } from "./types/permit2";
+import { getReportWriter } from "./writers";
+
+/**
+ * Compares two saved snapshots. Without arguments the two latest snapshots are
+ * used; a single argument is compared against the latest one.
+ */
+function runDiff(options: CliOptions) {
+  const directory = options.snapshotDir ?? getSnapshotDir();
+  let files = options.snapshotFiles;
+  if (files.length < 2) {
+    const pair = pickSnapshotPair(files, listSnapshots(directory));
+    if (!pair) {
+      throw new CliError(
+        files.length === 1
+          ? `No snapshot in ${directory} was taken with the same filters as ${files[0]}`
+          : `No two snapshots in ${directory} were taken with the same filters`
+      );
+    }
+    files = pair;
+  }
 
-const permit2Abi = permit2AbiJson as ContractAbi;
+  const diff = diffSnapshots(readSnapshot(files[0]), readSnapshot(files[1]));
+  const content =
+    options.format === "json"
+      ? `${JSON.stringify(serializeSnapshotDiff(diff), null, 2)}\n`
+      : formatSnapshotDiff(diff);
+
+  if (options.output) {
+    const outputFile = path.resolve(process.cwd(), options.output);
+    writeFileSync(outputFile, content);
+    console.log(`Diff written to ${outputFile}`);
+  } else {
+    console.log(content);
+  }
+}
 
 async function main() {
+  const options = parseCliArgs(process.argv.slice(2));
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (options.version) {
+    console.log(packageJson.version);
+    return;
+  }
+  if (options.command === "diff") {
+    runDiff(options);
+    return;
+  }
+
   const logger = new Logger();
-  const permit2Address = PERMIT2_ADDRESS;
 
   logger.section("Pending Rewards Checker - Permit Analysis");
 
@@ -40,304 +99,239 @@ async function main() {
     throw new Error("Missing Supabase environment variables");
   }
   const supabase = createClient<Database>(supabaseUrl, supabaseKey);
+  const priceSource = createPriceSource(process.env.PRICE_FILE);
 
-  const argv = process.argv.slice(2);
-  const walletsFromArgs: string[] = [];
-  for (let i = 0; i < argv.length; i++) {
-    const arg = argv[i];
-    if (arg === "--wallet" || arg === "-w") {
-      const next = argv[i + 1];
-      if (next && !next.startsWith("-")) {
-        next
-          .split(/[,\n]/)
-          .map((v) => v.trim())
-          .filter((v) => v.length > 0)
-          .forEach((v) => walletsFromArgs.push(v));
-        i++;
+  const filters: PermitFilters = {
+    networks: options.networks,
+    tokenAddresses: options.tokens,
+    createdFrom: options.since?.toISOString(),
+    createdTo: options.until?.toISOString(),
+  };
+  if (options.command === "partner" && options.target) {
+    options.wallets.push(options.target);
+  }
+  if (options.command === "user" && options.target) {
+    if (utils.isAddress(options.target)) {
+      filters.beneficiaryWallet = options.target;
+    } else if (/^\d+$/.test(options.target)) {
+      filters.beneficiaryId = Number(options.target);
+      logger.info(
+        `Resolved GitHub user id ${options.target} to ${await fetchGitHubUsername(filters.beneficiaryId)}`
+      );
+    } else {
+      const user = await fetchGitHubUserByLogin(options.target);
+      if (!user) {
+        throw new CliError(`GitHub user not found: ${options.target}`);
       }
-    } else if (arg.startsWith("--wallet=") || arg.startsWith("-w=")) {
-      const val = arg.split("=")[1] || "";
-      val
-        .split(/[,\n]/)
-        .map((v) => v.trim())
-        .filter((v) => v.length > 0)
-        .forEach((v) => walletsFromArgs.push(v));
+      filters.beneficiaryId = user.id;
+      logger.info(`Resolved ${user.login} to GitHub user id ${user.id}`);
     }
   }
 
-  const partnerAllowlist = getPartnerAllowlist(logger, walletsFromArgs);
-  logger.startSpinner("Fetching permits from database...");
-  const { data: fetchedData, error } = await fetchAllPermits(
-    supabase,
-    logger,
-    partnerAllowlist.size > 0 ? Array.from(partnerAllowlist) : undefined
-  );
-
-  if (error) {
-    logger.stopSpinner("Failed to fetch permits", true);
-    logger.error(`Database error: ${error.message}`);
-    return;
+  if (options.organizations.length > 0) {
+    filters.organizationIds = await resolveOrganizationIds(
+      options.organizations
+    );
   }
-
-  if (!fetchedData) {
-    logger.stopSpinner("No permits found in database", true);
-    return;
+  if (options.repositories.length > 0) {
+    filters.repositoryIds = await resolveRepositoryIds(options.repositories);
   }
 
-  const data = fetchedData;
-  logger.stopSpinner(`Found ${data.length} permits to analyze`);
-
-  // First, collect all unique GitHub user IDs
-  const githubUserIds = new Set<number>();
-  for (const permit of data) {
-    const userId = permit.users?.id;
-    if (userId) {
-      githubUserIds.add(userId);
-    }
+  const isBeneficiaryLookup =
+    filters.beneficiaryId !== undefined ||
+    filters.beneficiaryWallet !== undefined;
+  if (isBeneficiaryLookup && options.wallets.length === 0) {
+    // A contributor's permits can come from any partner, not just the defaults
+    filters.partnerWallets = [];
+    logger.info("Partner allowlist skipped for the beneficiary lookup");
+  } else {
+    filters.partnerWallets = Array.from(
+      getPartnerAllowlist(logger, options.wallets)
+    );
   }
 
-  logger.startSpinner(`Fetching GitHub usernames...`);
-  const githubUsernames = await fetchGitHubUsernames(Array.from(githubUserIds));
-  logger.stopSpinner(`GitHub usernames retrieved`);
-
-  logger.section("Permit Processing");
-  const permits: PermitData[] = [];
-  const failedChecks: PermitRow[] = [];
-  const completed = { count: 0 }; // Use object for shared reference
-  let retrySuccessCount = 0;
-
-  logger.startSpinner("Processing permits in parallel...");
+  const nonceCache = options.noCache
+    ? null
+    : new ClaimedNonceCache(options.cacheFile ?? getNonceCacheFile());
+  if (nonceCache) {
+    logger.info(
+      `Nonce cache: ${nonceCache.size} claimed nonces in ${nonceCache.filePath}`
+    );
+  }
 
-  // Process all permits in parallel with progress tracking
-  const processPermit = async (
-    permit: PermitRow
-  ): Promise<PermitData | null> => {
+  if (options.command === "serve") {
+    const server = createPendingRewardsServer({
+      supabase,
+      logger: new QuietLogger(),
+      partnerWallets: filters.partnerWallets,
+      // Like the `user` command, contributors are looked up across all partners
+      userPartnerWallets:
+        options.wallets.length > 0 ? filters.partnerWallets : [],
+      networks: options.networks,
+      priceSource,
+      nonceCache,
+      ttlMs: getServeCacheTtlMs(),
+    });
     try {
-      const partnerAddress = permit.partners?.wallets?.address;
-      const tokenAddress = permit.tokens?.address;
-      const userAddress = permit.users?.wallets?.address;
-      const network = permit.tokens?.network;
-      const githubUserId = permit.users?.id;
-      const userName = githubUserId
-        ? githubUsernames.get(githubUserId) || `user-${githubUserId}`
-        : "Unknown User";
-
-      if (!partnerAddress || !tokenAddress || !userAddress || !network) {
-        completed.count++;
-        logger.updateSpinner(
-          `Processing permits... ${completed.count}/${data.length} completed`
-        );
-        return null;
-      }
-
-      const permit2Contract = getContract(permit2Address, permit2Abi, network);
-      const permit2Wrapper = new Permit2Wrapper(permit2Contract as Contract);
-
-      const isClaimed = await permit2Wrapper.isNonceClaimed(
-        partnerAddress,
-        permit.nonce
-      );
-
-      let tokenSymbol = "UNKNOWN";
-      try {
-        const tokenContract = getContract(tokenAddress, ERC20_ABI, network);
-        const erc20Wrapper = new Erc20Wrapper(tokenContract as Contract);
-        tokenSymbol = await erc20Wrapper.symbol();
-      } catch (symbolError) {}
-
-      const permitData: PermitData = {
-        nonce: parseInt(permit.nonce, 10),
-        amount: permit.amount,
-        partnerAddress,
-        tokenAddress,
-        tokenSymbol,
-        network,
-        userAddress,
-        userName,
-        isClaimed,
-      };
-
-      completed.count++;
-      logger.updateSpinner(
-        `Processing permits... ${completed.count}/${data.length} completed`
-      );
-
-      return permitData;
+      await startServer(server, options.port);
     } catch (error) {
-      completed.count++;
-      console.log(
-        `[Error] Failed permit ${completed.count}/${data.length}:`,
-        error instanceof Error ? error.message : String(error)
+      logger.error(
+        `Cannot serve on port ${options.port}: ${describeError(error)}`
       );
-      logger.updateSpinner(
-        `Processing permits... ${completed.count}/${data.length} completed`
-      );
-      failedChecks.push(permit);
-      return null;
+      process.exitCode = 1;
+      return;
     }
-  };
-
-  // Process all permits in parallel
-  const results = await Promise.all(data.map(processPermit));
+    logger.success(
+      `Serving pending rewards on http://localhost:${options.port}`
+    );
+    return;
+  }
 
-  // Collect successful results
-  results.forEach((result) => {
-    if (result) {
-      permits.push(result);
-    }
+  const { report, stats, writeBack, errors } = await checkPendingRewards({
+    supabase,
+    logger,
+    filters,
+    priceSource,
+    nonceCache,
+    eventScan: options.scanEvents
+      ? {
+          fromBlocks: options.fromBlocks,
+          defaultFromBlock: options.defaultFromBlock,
+        }
+      : undefined,
+    writeBack: options.writeBack ? { dryRun: options.dryRun } : undefined,
+    reconcile: options.command === "reconcile",
   });
+  const { permits } = report;
 
-  logger.stopSpinner(
-    `Completed: ${permits.length}/${data.length} permits processed successfully`
+  logger.section("Final Results");
+  logger.info(`Total permits processed: ${permits.length}`);
+  for (const status of PERMIT_STATUSES) {
+    logger.info(
+      `${PERMIT_STATUS_LABELS[status]} permits: ${
+        permits.filter((p) => p.status === status).length
+      }`
+    );
+  }
+  logger.info(
+    `Nonce bitmap words fetched: ${stats.bitmapWords} for ${stats.nonceLookups} nonce checks`
   );
+  if (nonceCache) {
+    logger.info(
+      `Nonces answered from cache: ${stats.cacheHits}, newly recorded: ${stats.cachedNonces}`
+    );
+  }
+  if (stats.unexplainedNonces) {
+    logger.warning(
+      `Used nonces without a matching transfer or invalidation: ${stats.unexplainedNonces}`
+    );
+  }
+  logger.info(`Failed checks: ${report.failedChecks.length}`);
+  if (report.skippedPermits.length > 0) {
+    logger.warning(
+      `Skipped permits with data quality issues: ${report.skippedPermits.length}`
+    );
+  }
+  if (report.dataWarnings.length > 0) {
+    logger.warning(
+      `Checked permits with data quality warnings: ${report.dataWarnings.length}`
+    );
+  }
 
-  if (failedChecks.length > 0) {
-    logger.startSpinner(`Retrying ${failedChecks.length} failed permits...`);
-    const retryCompleted = { count: 0 }; // Use object for shared reference
-
-    const retryResults = await Promise.all(
-      failedChecks.map(async (permit) => {
-        try {
-          const partnerAddress = permit.partners?.wallets?.address;
-          const tokenAddress = permit.tokens?.address;
-          const userAddress = permit.users?.wallets?.address;
-          const network = permit.tokens?.network;
-          const githubUserId = permit.users?.id;
-          const userName = githubUserId
-            ? githubUsernames.get(githubUserId) || `user-${githubUserId}`
-            : "Unknown User";
-
-          if (!partnerAddress || !tokenAddress || !userAddress || !network) {
-            retryCompleted.count++;
-            logger.updateSpinner(
-              `Retrying permits... ${retryCompleted.count}/${failedChecks.length}`
-            );
-            return null;
-          }
-
-          const permit2Contract = getContract(
-            permit2Address,
-            permit2Abi,
-            network
-          );
-          const permit2Wrapper = new Permit2Wrapper(
-            permit2Contract as Contract
-          );
-
-          const isClaimed = await permit2Wrapper.isNonceClaimed(
-            partnerAddress,
-            permit.nonce
-          );
-
-          let tokenSymbol = "UNKNOWN";
-          try {
-            const tokenContract = getContract(tokenAddress, ERC20_ABI, network);
-            const erc20Wrapper = new Erc20Wrapper(tokenContract as Contract);
-            tokenSymbol = await erc20Wrapper.symbol();
-          } catch (symbolError) {}
-
-          const permitData: PermitData = {
-            nonce: parseInt(permit.nonce, 10),
-            amount: permit.amount,
-            partnerAddress,
-            tokenAddress,
-            tokenSymbol,
-            network,
-            userAddress,
-            userName,
-            isClaimed,
-          };
-
-          retryCompleted.count++;
-          logger.updateSpinner(
-            `Retrying permits... ${retryCompleted.count}/${failedChecks.length}`
-          );
-          retrySuccessCount++;
-          return permitData;
-        } catch (error) {
-          retryCompleted.count++;
-          logger.updateSpinner(
-            `Retrying permits... ${retryCompleted.count}/${failedChecks.length}`
-          );
-          return null;
-        }
-      })
+  const funding = report.funding ?? [];
+  const underfunded = funding.filter(
+    (row) => !row.balanceShortfall.isZero() || !row.allowanceShortfall.isZero()
+  );
+  if (underfunded.length > 0) {
+    logger.warning(
+      `Wallet and token pairs that cannot cover their claimable permits: ${underfunded.length}`
     );
+  }
+  for (const row of funding.filter((row) => row.error)) {
+    logger.warning(
+      `Funding check failed for ${row.partnerAddress} ${row.token}: ${row.error}`
+    );
+  }
 
-    // Add successful retries to permits
-    retryResults.forEach((result) => {
-      if (result) {
-        permits.push(result);
+  if (writeBack) {
+    logger.section(writeBack.dryRun ? "Write-back (dry run)" : "Write-back");
+    for (const rejection of writeBack.rejected) {
+      logger.warning(
+        `Permit ${rejection.permitId}: not written, ${rejection.reason}`
+      );
+    }
+    if (!writeBack.result) {
+      for (const update of writeBack.updates) {
+        logger.info(
+          `Permit ${update.permitId}: transaction null -> ${update.transaction}`
+        );
       }
-    });
+      logger.info(`Rows that would be updated: ${writeBack.updates.length}`);
+    } else {
+      logger.info(`Rows updated: ${writeBack.result.updated.length}`);
+      if (writeBack.result.unchanged.length > 0) {
+        logger.info(
+          `Rows already recorded by another writer: ${writeBack.result.unchanged.length}`
+        );
+      }
+      for (const failure of writeBack.result.failed) {
+        logger.error(`Permit ${failure.permitId}: ${failure.reason}`);
+      }
+    }
+  }
 
-    logger.stopSpinner(
-      `Retries completed: ${retrySuccessCount}/${failedChecks.length} successful`
-    );
+  for (const error of errors) {
+    logger.error(error);
+  }
+  if (errors.length > 0) {
+    process.exitCode = 1;
   }
 
-  const unclaimedPermits = permits.filter((p) => !p.isClaimed);
-  const claimedPermits = permits.filter((p) => p.isClaimed);
+  if (!options.noSnapshot) {
+    try {
+      const snapshotFile = saveSnapshot(
+        options.snapshotDir ?? getSnapshotDir(),
+        createSnapshot(report, filters, options.window)
+      );
+      logger.info(`Snapshot saved to ${snapshotFile}`);
+    } catch (error) {
+      logger.warning(`Failed to save snapshot: ${describeError(error)}`);
+    }
+  }
 
-  logger.section("Final Results");
-  logger.info(`Total permits processed: ${permits.length}`);
-  logger.info(`Claimed permits: ${claimedPermits.length}`);
-  logger.info(`Unclaimed permits: ${unclaimedPermits.length}`);
-  logger.info(
-    `Final failed checks: ${failedChecks.length - retrySuccessCount}`
-  );
+  if (options.command === "user") {
+    logger.section(`Permits of ${options.target}`);
+    console.log(
+      permits.length > 0 ? formatPermitDetails(permits) : "No permits found."
+    );
+  }
 
-  if (unclaimedPermits.length === 0) {
-    logger.info("No unclaimed permits found - skipping report generation");
+  if (options.command === "check") {
     return;
   }
 
   logger.startSpinner("Generating wallet toppings analysis...");
-  const walletToppings = calculateWalletTotals(
-    unclaimedPermits,
-    (permit) => permit.partnerAddress
+  const writer = getReportWriter(options.format);
+  const content = writer.render(report);
+  logger.stopSpinner("Analysis generated");
+
+  logger.startSpinner(`Writing results to ${options.format} file...`);
+  const outputFile = path.resolve(
+    process.cwd(),
+    options.output ?? `pending-rewards.${writer.extension}`
   );
+  writeFileSync(outputFile, content);
+  logger.stopSpinner(`Results written to ${path.basename(outputFile)}`);
 
-  const userRewards = calculateUserWalletTotals(unclaimedPermits);
-
-  const allUniqueTokens = getAllUniqueTokensFromMaps(
-    walletToppings,
-    userRewards
-  );
-
-  const walletToppingsTable = generateWalletTotalsTable(
-    "Wallet Toppings",
-    walletToppings,
-    allUniqueTokens
-  );
-
-  const userRewardsTable = generateUserRewardsTable(
-    "User Rewards",
-    userRewards,
-    allUniqueTokens
-  );
-  logger.stopSpinner("Analysis tables generated");
-
-  logger.startSpinner("Writing results to markdown file...");
-  const markdownContent = `# Pending Rewards
-
-${walletToppingsTable}
-
-${userRewardsTable}
-
-## Summary
-
-- Total permits processed: ${permits.length}
-- Failed checks: ${failedChecks.length}
-- Claimed permits: ${permits.filter((p) => p.isClaimed).length}
-- Unclaimed permits: ${unclaimedPermits.length}
-`;
-
-  const txtFile = path.join(process.cwd(), "pending-rewards.txt");
-  writeFileSync(txtFile, markdownContent);
-  logger.stopSpinner("Results written to pending-rewards.txt");
-
-  logger.fileOutput(txtFile);
+  logger.fileOutput(outputFile);
 }
 
-main().catch(console.error);
+main().catch((error) => {
+  if (error instanceof CliError) {
+    console.error(`Error: ${error.message}`);
+    console.error("Run pending-rewards --help for usage.");
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,447 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { providers } from "ethers";
+import permit2AbiJson from "./abi/permit2.json";
+import { mapWithConcurrency } from "./helpers/concurrency";
+import { getLogChunkSize, getPermitConcurrency } from "./helpers/config";
+import {
+  getDataWarning,
+  getSkipReason,
+  toUnprocessedPermit,
+} from "./helpers/data-quality";
+import { labelUsedNonces, Permit2EventScanner } from "./helpers/event-scanner";
+import {
+  getTokenDecimalsByKey,
+  getTokenLabelsByKey,
+  getTokenRefsByKey,
+  PermitData,
+} from "./helpers/formatting";
+import { checkPartnerFunding } from "./helpers/funding";
+import { fetchGitHubUsernames } from "./helpers/github";
+import { Logger } from "./helpers/logger";
+import { getNetwork } from "./helpers/networks";
+import { ClaimedNonceCache } from "./helpers/nonce-cache";
+import { NonceBitmapChecker } from "./helpers/nonce-checker";
+import { checkReceipt, reconcilePermits } from "./helpers/reconcile";
+import { getRepositoryName } from "./helpers/repository";
+import { describeError } from "./helpers/retry";
+import { classifyPermit } from "./helpers/status";
+import {
+  fetchAllPermits,
+  PermitFilters,
+  PermitRow,
+  TransactionUpdate,
+  TransactionWriteResult,
+  updatePermitTransactions,
+} from "./helpers/supabase";
+import {
+  NoPriceSource,
+  PriceSource,
+  resolveTokenPrices,
+} from "./helpers/valuation";
+import { ChainClient, getDefaultChainClient } from "./helpers/web3";
+import { Database } from "./types/database";
+import { ContractAbi } from "./types/permit2";
+import {
+  DataQualityWarning,
+  PendingRewardsReport,
+  UnprocessedPermit,
+} from "./types/report";
+
+export { AGING_BUCKETS, calculateAging } from "./helpers/aging";
+export type { AgingRow } from "./helpers/aging";
+export { getNetwork, getNetworkName, NETWORKS } from "./helpers/networks";
+export type { NetworkInfo } from "./helpers/networks";
+export { ClaimedNonceCache } from "./helpers/nonce-cache";
+export { Logger } from "./helpers/logger";
+export type { PermitData } from "./helpers/formatting";
+export { calculateRepositoryTotals } from "./helpers/repository";
+export type { RepositoryTotal } from "./helpers/repository";
+export {
+  createSnapshot,
+  listSnapshots,
+  readSnapshot,
+  saveSnapshot,
+} from "./helpers/snapshot";
+export type { Snapshot, SnapshotPermit } from "./helpers/snapshot";
+export { diffSnapshots, formatSnapshotDiff } from "./helpers/snapshot-diff";
+export type { OwedDelta, SnapshotDiff } from "./helpers/snapshot-diff";
+export type { PermitStatus } from "./helpers/status";
+export type { PermitFilters } from "./helpers/supabase";
+export {
+  createPriceSource,
+  NoPriceSource,
+  StaticPriceFileSource,
+} from "./helpers/valuation";
+export type { PriceSource } from "./helpers/valuation";
+export { getReportWriter } from "./writers";
+export type {
+  FundingRow,
+  PendingRewardsReport,
+  ReconciliationIssue,
+  UnprocessedPermit,
+} from "./types/report";
+
+const permit2Abi = permit2AbiJson as ContractAbi;
+
+export interface CheckPendingRewardsOptions {
+  supabase: SupabaseClient<Database>;
+  /** Receives progress; pass your own to route it elsewhere */
+  logger: Logger;
+  /** Providers per network; defaults to the RPC endpoints from the environment */
+  getProvider?: (network: number) => providers.Provider;
+  /** Server-side permit filters, including the partner allowlist */
+  filters?: PermitFilters;
+  /** Defaults to no prices */
+  priceSource?: PriceSource;
+  /** Look up GitHub logins of beneficiaries (default true) */
+  resolveUsernames?: boolean;
+  /** Claimed nonce cache; read and saved when given */
+  nonceCache?: ClaimedNonceCache | null;
+  /** Label used nonces from chain logs, starting at these blocks */
+  eventScan?: {
+    fromBlocks?: Record<number, number>;
+    defaultFromBlock?: number;
+  };
+  /** Record claim transactions found by the event scan in the database */
+  writeBack?: { dryRun: boolean };
+  /** Cross-check `permits.transaction` with the chain */
+  reconcile?: boolean;
+  /** Permits processed at once; defaults to `PERMIT_CONCURRENCY` */
+  concurrency?: number;
+}
+
+export interface PendingRewardsResult {
+  report: PendingRewardsReport;
+  stats: {
+    /** Permits fetched from the database */
+    fetchedPermits: number;
+    bitmapWords: number;
+    nonceLookups: number;
+    cacheHits: number;
+    /** Nonces newly written to the cache */
+    cachedNonces: number;
+    /** Used nonces no log explains; `null` without an event scan */
+    unexplainedNonces: number | null;
+  };
+  /** Present when write-back was requested */
+  writeBack?: {
+    dryRun: boolean;
+    updates: TransactionUpdate[];
+    /** Claim transactions left out because `checkReceipt` did not confirm them */
+    rejected: { permitId: number; reason: string }[];
+    /** `null` for a dry run */
+    result: TransactionWriteResult | null;
+  };
+  /** Steps that failed without stopping the run, e.g. the event scan */
+  errors: string[];
+}
+
+/**
+ * Fetches permits from Supabase, checks their nonces on chain and returns the
+ * report data. Nothing is written to disk except the nonce cache, when one is
+ * given, and nothing is written to the database unless `writeBack` is set.
+ *
+ * @param options - Injected clients and the steps to run
+ * @returns The report with run statistics
+ * @throws Error when the permits cannot be fetched
+ */
+export async function checkPendingRewards(
+  options: CheckPendingRewardsOptions,
+): Promise<PendingRewardsResult> {
+  const { supabase, logger, nonceCache = null } = options;
+  const priceSource = options.priceSource ?? new NoPriceSource();
+  const chain = options.getProvider
+    ? new ChainClient(options.getProvider)
+    : getDefaultChainClient();
+  const getPermit2 = (network: number) =>
+    chain.getContract(PERMIT2_ADDRESS, permit2Abi, network);
+  const concurrency = options.concurrency ?? getPermitConcurrency();
+  const errors: string[] = [];
+
+  logger.startSpinner("Fetching permits from database...");
+  const { data: fetchedData, error } = await fetchAllPermits(
+    supabase,
+    logger,
+    options.filters,
+  );
+  if (error) {
+    logger.stopSpinner("Failed to fetch permits", true);
+    throw new Error(`Database error: ${error.message}`);
+  }
+  const data = fetchedData ?? [];
+  logger.stopSpinner(`Found ${data.length} permits to analyze`);
+
+  let githubUsernames = new Map<number, string>();
+  if (options.resolveUsernames !== false) {
+    const githubUserIds = new Set<number>();
+    for (const permit of data) {
+      const userId = permit.users?.id;
+      if (userId) {
+        githubUserIds.add(userId);
+      }
+    }
+
+    logger.startSpinner(`Fetching GitHub usernames...`);
+    githubUsernames = await fetchGitHubUsernames(Array.from(githubUserIds));
+    logger.stopSpinner(`GitHub usernames retrieved`);
+  }
+
+  logger.section("Permit Processing");
+  const failedChecks: UnprocessedPermit[] = [];
+  const skippedPermits: UnprocessedPermit[] = [];
+  const dataWarnings: DataQualityWarning[] = [];
+  let completed = 0;
+  const now = Math.floor(Date.now() / 1000);
+  const nonceChecker = new NonceBitmapChecker((network) =>
+    chain.getPermit2(PERMIT2_ADDRESS, permit2Abi, network),
+  );
+
+  logger.startSpinner("Processing permits in parallel...");
+
+  // RPC calls retry transient failures themselves, so a permit that still
+  // fails here is final
+  const processPermit = async (
+    permit: PermitRow,
+  ): Promise<PermitData | null> => {
+    try {
+      const skipReason =
+        getSkipReason(permit) ??
+        (chain.hasNetwork(permit.tokens!.network)
+          ? null
+          : `unknown network: ${permit.tokens!.network}`);
+      if (skipReason) {
+        skippedPermits.push(toUnprocessedPermit(permit, skipReason));
+        return null;
+      }
+      const warning = getDataWarning(permit);
+      if (warning) {
+        dataWarnings.push(warning);
+      }
+
+      // getSkipReason guarantees these are present
+      const partnerAddress = permit.partners!.wallets!.address!;
+      const tokenAddress = permit.tokens!.address;
+      const network = permit.tokens!.network;
+      const userAddress = permit.users.wallets.address!;
+      const githubUserId = permit.users?.id;
+      const userName = githubUserId
+        ? githubUsernames.get(githubUserId) || `user-${githubUserId}`
+        : "Unknown User";
+
+      // A used nonce stays used, so only unused and new nonces go on chain
+      const isClaimed =
+        nonceCache?.isClaimed(network, partnerAddress, permit.nonce) ||
+        (await nonceChecker.isNonceClaimed(
+          network,
+          partnerAddress,
+          permit.nonce,
+        ));
+      if (isClaimed) {
+        nonceCache?.recordClaimed(network, partnerAddress, permit.nonce);
+      }
+
+      const { symbol: tokenSymbol, decimals: tokenDecimals } =
+        await chain.getTokenMetadata(tokenAddress, network);
+
+      return {
+        id: permit.id,
+        nonce: permit.nonce,
+        amount: permit.amount,
+        partnerAddress,
+        tokenAddress,
+        tokenSymbol,
+        tokenDecimals,
+        network,
+        userAddress,
+        userName,
+        isClaimed,
+        deadline: permit.deadline,
+        created: permit.created,
+        repository: getRepositoryName(permit.locations?.node_url ?? null),
+        issueUrl: permit.locations?.node_url ?? null,
+        signature: permit.signature,
+        transaction: permit.transaction,
+        status: classifyPermit(isClaimed, permit.deadline, now),
+      };
+    } catch (error) {
+      const reason = describeError(error);
+      logger.warning(`Failed permit ${permit.id}: ${reason}`);
+      failedChecks.push(toUnprocessedPermit(permit, reason));
+      return null;
+    } finally {
+      completed++;
+      logger.updateSpinner(
+        `Processing permits... ${completed}/${data.length} completed`,
+      );
+    }
+  };
+
+  // Permits go through a bounded queue; RPC calls are rate limited per network
+  const permits = (
+    await mapWithConcurrency(data, concurrency, processPermit)
+  ).filter((permit): permit is PermitData => permit !== null);
+  logger.stopSpinner(
+    `Completed: ${permits.length}/${data.length} permits processed successfully`,
+  );
+
+  const cachedNonces = nonceCache?.pendingCount ?? 0;
+  if (nonceCache && cachedNonces > 0) {
+    try {
+      await nonceCache.save((network) =>
+        chain.getProvider(network).getBlockNumber(),
+      );
+    } catch (error) {
+      logger.warning(`Failed to save nonce cache: ${describeError(error)}`);
+    }
+  }
+
+  let unexplainedNonces: number | null = null;
+  if (options.eventScan) {
+    const { fromBlocks = {}, defaultFromBlock } = options.eventScan;
+    logger.section("Event Scan");
+    logger.startSpinner("Scanning Permit2 and token logs...");
+    const scanners = new Map<number, Permit2EventScanner>();
+    const getScanner = (network: number) => {
+      let scanner = scanners.get(network);
+      if (!scanner) {
+        scanner = new Permit2EventScanner(
+          chain.getProvider(network),
+          getPermit2(network),
+          {
+            fromBlock:
+              fromBlocks[network] ??
+              defaultFromBlock ??
+              getNetwork(network)?.permit2DeploymentBlock ??
+              0,
+            chunkSize: getLogChunkSize(network),
+          },
+        );
+        scanners.set(network, scanner);
+      }
+      return scanner;
+    };
+    try {
+      unexplainedNonces = await labelUsedNonces(permits, getScanner);
+      logger.stopSpinner("Event scan complete");
+    } catch (error) {
+      logger.stopSpinner("Event scan failed", true);
+      errors.push(`Event scan failed: ${describeError(error)}`);
+    }
+  }
+
+  logger.startSpinner("Checking partner balances and Permit2 allowances...");
+  const funding = await checkPartnerFunding(
+    permits,
+    (address, network) => chain.getErc20(address, network),
+    PERMIT2_ADDRESS,
+    concurrency,
+  );
+  logger.stopSpinner(
+    `Funding checked for ${funding.length} wallet and token pairs`,
+  );
+
+  let writeBack: PendingRewardsResult["writeBack"];
+  if (options.writeBack) {
+    // Only transfers have a claim transaction; the database value always wins
+    const candidates = permits.filter(
+      (p) =>
+        p.claimSource === "transfer" && p.claimTransaction && !p.transaction,
+    );
+    logger.startSpinner("Verifying claim transactions...");
+    const mismatches = await mapWithConcurrency(
+      candidates,
+      concurrency,
+      async (p) => {
+        try {
+          return await checkReceipt(
+            p,
+            p.claimTransaction!,
+            chain.getProvider(p.network),
+            getPermit2(p.network),
+          );
+        } catch (error) {
+          return `receipt unavailable: ${describeError(error)}`;
+        }
+      },
+    );
+    const updates: TransactionUpdate[] = [];
+    const rejected: { permitId: number; reason: string }[] = [];
+    candidates.forEach((p, index) => {
+      const reason = mismatches[index];
+      if (reason) {
+        rejected.push({ permitId: p.id, reason });
+      } else {
+        updates.push({ permitId: p.id, transaction: p.claimTransaction! });
+      }
+    });
+    logger.stopSpinner(
+      `${updates.length} of ${candidates.length} claim transactions verified`,
+    );
+
+    let result: TransactionWriteResult | null = null;
+    if (!options.writeBack.dryRun) {
+      logger.startSpinner("Writing claim transactions...");
+      result = await updatePermitTransactions(supabase, logger, updates);
+      logger.stopSpinner(
+        `Write-back complete: ${result.updated.length} rows updated`,
+        result.failed.length > 0,
+      );
+      // Keep the report in line with what is now in the database
+      const updatedIds = new Set(result.updated);
+      for (const permit of permits) {
+        if (updatedIds.has(permit.id)) {
+          permit.transaction = permit.claimTransaction!;
+        }
+      }
+      if (result.failed.length > 0) {
+        errors.push(`Write-back failed for ${result.failed.length} permits`);
+      }
+    }
+    writeBack = { dryRun: options.writeBack.dryRun, updates, rejected, result };
+  }
+
+  const report: PendingRewardsReport = {
+    generatedAt: new Date().toISOString(),
+    permits,
+    failedChecks,
+    skippedPermits,
+    dataWarnings,
+    priceSource: priceSource.name,
+    tokenLabels: getTokenLabelsByKey(permits),
+    tokenDecimals: getTokenDecimalsByKey(permits),
+    prices: await resolveTokenPrices(getTokenRefsByKey(permits), priceSource),
+    funding,
+  };
+  const { createdFrom, createdTo } = options.filters ?? {};
+  if (createdFrom || createdTo) {
+    report.createdWindow = { from: createdFrom ?? null, to: createdTo ?? null };
+  }
+
+  if (options.reconcile) {
+    logger.startSpinner("Reconciling recorded transactions with the chain...");
+    report.reconciliation = await reconcilePermits(
+      permits,
+      chain.getProvider,
+      getPermit2,
+      concurrency,
+    );
+    logger.stopSpinner(
+      `Reconciliation complete: ${report.reconciliation.length} discrepancies`,
+    );
+  }
+
+  return {
+    report,
+    stats: {
+      fetchedPermits: data.length,
+      bitmapWords: nonceChecker.wordCount,
+      nonceLookups: nonceChecker.lookupCount,
+      cacheHits: nonceCache?.hits ?? 0,
+      cachedNonces,
+      unexplainedNonces,
+    },
+    writeBack,
+    errors,
+  };
+}
@@ -0,0 +1,215 @@
+import { SupabaseClient } from "@supabase/supabase-js";
+import { utils } from "ethers";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { sumTokenTotals } from "./helpers/formatting";
+import { fetchGitHubUserByLogin } from "./helpers/github";
+import { Logger } from "./helpers/logger";
+import { ClaimedNonceCache } from "./helpers/nonce-cache";
+import { ResponseCache } from "./helpers/response-cache";
+import { describeError, HttpError } from "./helpers/retry";
+import { PERMIT_STATUSES, PermitStatus } from "./helpers/status";
+import { PermitFilters } from "./helpers/supabase";
+import { PriceSource, valueTokenTotals } from "./helpers/valuation";
+import { checkPendingRewards, CheckPendingRewardsOptions } from "./lib";
+import { Database } from "./types/database";
+import { PendingRewardsReport } from "./types/report";
+import { serializeFunding, serializePermit } from "./writers/json";
+
+export interface ServeOptions {
+  supabase: SupabaseClient<Database>;
+  logger: Logger;
+  /** Partner wallets included in `/summary` */
+  partnerWallets: string[];
+  /** Partner wallets included in `/users/...`; empty covers every partner */
+  userPartnerWallets: string[];
+  networks: number[];
+  priceSource: PriceSource;
+  nonceCache: ClaimedNonceCache | null;
+  /** How long a computed response is served before it is recomputed */
+  ttlMs: number;
+  /** Providers per network; defaults to the RPC endpoints from the environment */
+  getProvider?: CheckPendingRewardsOptions["getProvider"];
+}
+
+function summarizeReport(report: PendingRewardsReport) {
+  const statusCounts = Object.fromEntries(
+    PERMIT_STATUSES.map((status) => [
+      status,
+      report.permits.filter((p) => p.status === status).length,
+    ]),
+  ) as Record<PermitStatus, number>;
+  const claimableTotals = sumTokenTotals(
+    report.permits.filter((p) => p.status === "claimable"),
+  );
+  const valuation = valueTokenTotals(
+    claimableTotals,
+    report.tokenDecimals,
+    report.prices,
+  );
+
+  return {
+    generatedAt: report.generatedAt,
+    priceSource: report.priceSource,
+    statusCounts,
+    claimable: {
+      totals: Object.fromEntries(
+        Object.entries(claimableTotals).map(([token, amount]) => [
+          token,
+          amount.toString(),
+        ]),
+      ),
+      tokenLabels: Object.fromEntries(
+        Object.keys(claimableTotals).map((token) => [
+          token,
+          report.tokenLabels[token] ?? token,
+        ]),
+      ),
+      usd: valuation.usd,
+      unpricedTokens: valuation.unpricedTokens,
+    },
+    failedChecks: report.failedChecks.length,
+    skippedPermits: report.skippedPermits.length,
+    dataWarnings: report.dataWarnings.length,
+  };
+}
+
+function sendJson(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * HTTP front end over {@link checkPendingRewards}:
+ *
+ * - `GET /users/:login/pending`: claimable permits of a GitHub login or wallet
+ * - `GET /partners/:address/liabilities`: what a partner wallet owes and can pay
+ * - `GET /summary`: status counts and claimable totals across all partners
+ *
+ * Each response is cached for `ttlMs`, and so is the GitHub lookup of a login,
+ * whether or not it exists.
+ */
+export function createPendingRewardsServer(options: ServeOptions): Server {
+  const cache = new ResponseCache(options.ttlMs);
+
+  const run = async (filters: PermitFilters) => {
+    const { report } = await checkPendingRewards({
+      supabase: options.supabase,
+      logger: options.logger,
+      getProvider: options.getProvider,
+      filters: { networks: options.networks, ...filters },
+      priceSource: options.priceSource,
+      nonceCache: options.nonceCache,
+    });
+    return report;
+  };
+
+  const getSummary = () =>
+    cache.get("summary", async () =>
+      summarizeReport(await run({ partnerWallets: options.partnerWallets })),
+    );
+
+  const getUserPending = (user: string) =>
+    cache.get(`user:${user.toLowerCase()}`, async () => {
+      const filters: PermitFilters = {
+        partnerWallets: options.userPartnerWallets,
+      };
+      let login: string | null = null;
+      if (utils.isAddress(user)) {
+        filters.beneficiaryWallet = user;
+      } else {
+        // Cached on its own so unknown logins are not looked up on every request
+        const githubUser = (await cache.get(
+          `github-user:${user.toLowerCase()}`,
+          () => fetchGitHubUserByLogin(user),
+        )) as Awaited<ReturnType<typeof fetchGitHubUserByLogin>>;
+        if (!githubUser) {
+          throw new HttpError(`GitHub user not found: ${user}`, 404);
+        }
+        filters.beneficiaryId = githubUser.id;
+        login = githubUser.login;
+      }
+
+      const report = await run(filters);
+      return {
+        user: login ?? user,
+        ...summarizeReport(report),
+        permits: report.permits
+          .filter((p) => p.status === "claimable")
+          .map(serializePermit),
+      };
+    });
+
+  const getPartnerLiabilities = (address: string) =>
+    cache.get(`partner:${address.toLowerCase()}`, async () => {
+      const report = await run({ partnerWallets: [address.toLowerCase()] });
+      return {
+        partner: address,
+        ...summarizeReport(report),
+        funding: (report.funding ?? []).map(serializeFunding),
+      };
+    });
+
+  const route = (request: IncomingMessage): Promise<unknown> => {
+    const { pathname } = new URL(request.url ?? "/", "http://localhost");
+    let segments: string[];
+    try {
+      segments = pathname.split("/").filter(Boolean).map(decodeURIComponent);
+    } catch {
+      throw new HttpError(`Malformed path: ${pathname}`, 400);
+    }
+
+    if (segments.length === 1 && segments[0] === "summary") {
+      return getSummary();
+    }
+    if (
+      segments.length === 3 &&
+      segments[0] === "users" &&
+      segments[2] === "pending"
+    ) {
+      return getUserPending(segments[1]);
+    }
+    if (
+      segments.length === 3 &&
+      segments[0] === "partners" &&
+      segments[2] === "liabilities"
+    ) {
+      if (!utils.isAddress(segments[1])) {
+        throw new HttpError(`Invalid partner address: ${segments[1]}`, 400);
+      }
+      return getPartnerLiabilities(segments[1]);
+    }
+    throw new HttpError(`Not found: ${pathname}`, 404);
+  };
+
+  return createServer(async (request, response) => {
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    try {
+      sendJson(response, 200, await route(request));
+    } catch (error) {
+      const status =
+        error instanceof HttpError && error.status < 500 ? error.status : 500;
+      if (status === 500) {
+        options.logger.error(`${request.url}: ${describeError(error)}`);
+      }
+      sendJson(response, status, { error: describeError(error) });
+    }
+  });
+}
+
+/**
+ * Starts `server` on `port`, rejecting when it cannot listen (for example
+ * because the port is in use) instead of leaving the error unhandled.
+ */
+export function startServer(server: Server, port: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(port, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+}
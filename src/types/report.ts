@@ -0,0 +1,102 @@
+import { BigNumber } from "ethers";
+import { OutputFormat } from "../helpers/cli";
+import { PermitData } from "../helpers/formatting";
+
+/**
+ * A permit that never made it into the totals, with whatever the database row
+ * had and the reason it was left out.
+ */
+export interface UnprocessedPermit {
+  id: number;
+  nonce: string;
+  amount: string;
+  partnerAddress: string | null;
+  tokenAddress: string | null;
+  network: number | null;
+  userAddress: string | null;
+  reason: string;
+}
+
+/**
+ * A permit that was checked and counted, but whose row should still be fixed.
+ */
+export interface DataQualityWarning {
+  id: number;
+  /** As stored in the database */
+  nonce: string;
+  reason: string;
+}
+
+export type ReconciliationIssueKind =
+  | "unclaimed-with-transaction"
+  | "claimed-without-transaction"
+  | "receipt-mismatch"
+  | "receipt-unavailable";
+
+/**
+ * A permit whose recorded `transaction` disagrees with the chain.
+ */
+export interface ReconciliationIssue {
+  permitId: number;
+  nonce: string;
+  network: number;
+  kind: ReconciliationIssueKind;
+  /** The transaction recorded in the database, if any */
+  transaction: string | null;
+  detail: string;
+}
+
+/**
+ * What one partner wallet owes in one token against what Permit2 can actually
+ * pull from it.
+ */
+export interface FundingRow {
+  partnerAddress: string;
+  /** Token column, as in the totals tables */
+  token: string;
+  tokenAddress: string;
+  network: number;
+  /** Sum of the wallet's claimable permits */
+  owed: BigNumber;
+  /** `null` when the on-chain read failed */
+  balance: BigNumber | null;
+  /** Allowance granted to Permit2; `null` when the on-chain read failed */
+  allowance: BigNumber | null;
+  /** Tokens to send to the wallet so every claimable permit can be paid */
+  balanceShortfall: BigNumber;
+  /** Allowance to add for Permit2 to pull every claimable permit */
+  allowanceShortfall: BigNumber;
+  error?: string;
+}
+
+export interface PendingRewardsReport {
+  generatedAt: string;
+  /** Every permit whose nonce was checked, claimed or not */
+  permits: PermitData[];
+  /** Permits whose on-chain check still failed after retrying */
+  failedChecks: UnprocessedPermit[];
+  /** Permits skipped before the on-chain check because their row is invalid */
+  skippedPermits: UnprocessedPermit[];
+  /** Checked permits whose row is usable but not in canonical form */
+  dataWarnings: DataQualityWarning[];
+  priceSource: string;
+  /** Column labels keyed by token column (`<networkId>:<address>`) */
+  tokenLabels: Record<string, string>;
+  /** Token decimals keyed by token column */
+  tokenDecimals: Record<string, number>;
+  /** USD prices keyed by token column, `null` when unpriced */
+  prices: Record<string, number | null>;
+  /** Creation time window of the fetched permits, when one was given */
+  createdWindow?: { from: string | null; to: string | null };
+  /** Balance and allowance of every partner wallet with claimable permits */
+  funding?: FundingRow[];
+  /** Present only when the database was reconciled against the chain */
+  reconciliation?: ReconciliationIssue[];
+}
+
+export interface ReportWriter {
+  format: OutputFormat;
+  /** File extension, without the leading dot */
+  extension: string;
+  render(report: PendingRewardsReport): string;
+}
@@ -0,0 +1,106 @@
+import { getClaimUrl } from "../helpers/claim-url";
+import { getWarningsByPermitId } from "../helpers/data-quality";
+import { PermitData } from "../helpers/formatting";
+import { ReportWriter, UnprocessedPermit } from "../types/report";
+
+type CsvValue = string | number | boolean | null;
+
+const HEADERS = [
+  "nonce",
+  "amount",
+  "partner_address",
+  "token_address",
+  "network",
+  "user_address",
+  "is_claimed",
+  "token_symbol",
+  "permit_id",
+  "status",
+  "deadline",
+  "created",
+  "repository",
+  "issue_url",
+  "claim_source",
+  "claim_tx",
+  "claim_url",
+  "error",
+  "warning",
+];
+
+export function escapeCsv(value: CsvValue): string {
+  const str = value === null ? "" : String(value);
+  return /[",\n\r]/.test(str) ? `"${str.replace(/"/g, '""')}"` : str;
+}
+
+function checkedRow(permit: PermitData, warning: string | null): CsvValue[] {
+  return [
+    permit.nonce,
+    permit.amount,
+    permit.partnerAddress,
+    permit.tokenAddress,
+    permit.network,
+    permit.userAddress,
+    permit.isClaimed,
+    permit.tokenSymbol,
+    permit.id,
+    permit.status,
+    permit.deadline,
+    permit.created,
+    permit.repository,
+    permit.issueUrl,
+    permit.claimSource ?? null,
+    permit.claimTransaction ?? null,
+    permit.status === "claimable" ? getClaimUrl(permit) : null,
+    null,
+    warning,
+  ];
+}
+
+function unprocessedRow(permit: UnprocessedPermit): CsvValue[] {
+  return [
+    permit.nonce,
+    permit.amount,
+    permit.partnerAddress,
+    permit.tokenAddress,
+    permit.network,
+    permit.userAddress,
+    null,
+    null,
+    permit.id,
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    permit.reason,
+    null,
+  ];
+}
+
+/**
+ * One row per permit, in the column order documented in the README. Permits
+ * that could not be checked have an empty `is_claimed` and the reason in `error`;
+ * data quality warnings go in `warning` on the checked permit's row.
+ */
+export const csvWriter: ReportWriter = {
+  format: "csv",
+  extension: "csv",
+  render(report) {
+    const warnings = getWarningsByPermitId(report.dataWarnings);
+    const rows = [
+      ...report.permits.map((permit) =>
+        checkedRow(permit, warnings.get(permit.id) ?? null),
+      ),
+      ...report.failedChecks.map(unprocessedRow),
+      ...report.skippedPermits.map(unprocessedRow),
+    ];
+    const lines = [
+      HEADERS.join(","),
+      ...rows.map((row) => row.map(escapeCsv).join(",")),
+    ];
+    return `${lines.join("\n")}\n`;
+  },
+};
@@ -0,0 +1,16 @@
+import { OutputFormat } from "../helpers/cli";
+import { ReportWriter } from "../types/report";
+import { csvWriter } from "./csv";
+import { jsonWriter, ndjsonWriter } from "./json";
+import { markdownWriter } from "./markdown";
+
+const writers: Record<OutputFormat, ReportWriter> = {
+  markdown: markdownWriter,
+  csv: csvWriter,
+  json: jsonWriter,
+  ndjson: ndjsonWriter,
+};
+
+export function getReportWriter(format: OutputFormat): ReportWriter {
+  return writers[format];
+}
@@ -0,0 +1,181 @@
+import { AGING_BUCKETS, AgingRow, calculateAging } from "../helpers/aging";
+import { getClaimUrl } from "../helpers/claim-url";
+import { getWarningsByPermitId } from "../helpers/data-quality";
+import { PermitData } from "../helpers/formatting";
+import { getNetworkName } from "../helpers/networks";
+import {
+  calculateRepositoryTotals,
+  RepositoryTotal,
+} from "../helpers/repository";
+import { PERMIT_STATUSES } from "../helpers/status";
+import {
+  FundingRow,
+  PendingRewardsReport,
+  ReportWriter,
+  UnprocessedPermit,
+} from "../types/report";
+
+function summarize(report: PendingRewardsReport) {
+  const statusCounts = Object.fromEntries(
+    PERMIT_STATUSES.map((status) => [
+      status,
+      report.permits.filter((p) => p.status === status).length,
+    ]),
+  );
+  return {
+    totalPermits: report.permits.length,
+    statusCounts,
+    failedChecks: report.failedChecks.length,
+    skippedPermits: report.skippedPermits.length,
+    dataWarnings: report.dataWarnings.length,
+  };
+}
+
+export function serializePermit(permit: PermitData) {
+  return {
+    id: permit.id,
+    nonce: permit.nonce,
+    amount: permit.amount,
+    partnerAddress: permit.partnerAddress,
+    tokenAddress: permit.tokenAddress,
+    tokenSymbol: permit.tokenSymbol,
+    tokenDecimals: permit.tokenDecimals,
+    network: permit.network,
+    networkName: getNetworkName(permit.network),
+    userAddress: permit.userAddress,
+    userName: permit.userName ?? null,
+    isClaimed: permit.isClaimed,
+    status: permit.status,
+    deadline: permit.deadline,
+    created: permit.created,
+    repository: permit.repository,
+    issueUrl: permit.issueUrl,
+    transaction: permit.transaction,
+    claimSource: permit.claimSource ?? null,
+    claimTransaction: permit.claimTransaction ?? null,
+    claimUrl: permit.status === "claimable" ? getClaimUrl(permit) : null,
+  };
+}
+
+function serializeUnprocessed(permit: UnprocessedPermit) {
+  return {
+    id: permit.id,
+    nonce: permit.nonce,
+    amount: permit.amount,
+    partnerAddress: permit.partnerAddress,
+    tokenAddress: permit.tokenAddress,
+    network: permit.network,
+    userAddress: permit.userAddress,
+    isClaimed: null,
+    status: null,
+    error: permit.reason,
+  };
+}
+
+export function serializeFunding(row: FundingRow) {
+  return {
+    partnerAddress: row.partnerAddress,
+    token: row.token,
+    tokenAddress: row.tokenAddress,
+    network: row.network,
+    owed: row.owed.toString(),
+    balance: row.balance?.toString() ?? null,
+    allowance: row.allowance?.toString() ?? null,
+    balanceShortfall: row.balanceShortfall.toString(),
+    allowanceShortfall: row.allowanceShortfall.toString(),
+    error: row.error ?? null,
+  };
+}
+
+function serializeRepositoryTotal(total: RepositoryTotal) {
+  return {
+    organization: total.organization,
+    repository: total.repository,
+    permits: total.permitCount,
+    totals: Object.fromEntries(
+      Object.entries(total.tokenTotals).map(([token, amount]) => [
+        token,
+        amount.toString(),
+      ]),
+    ),
+  };
+}
+
+function serializeAging(row: AgingRow) {
+  return {
+    wallet: row.wallet,
+    ...(row.userName !== undefined && { userName: row.userName }),
+    token: row.token,
+    network: row.network,
+    buckets: Object.fromEntries(
+      AGING_BUCKETS.map((bucket) => [
+        bucket.id,
+        row.buckets[bucket.id].toString(),
+      ]),
+    ),
+    total: row.total.toString(),
+  };
+}
+
+/**
+ * The whole report as a single JSON document.
+ */
+export const jsonWriter: ReportWriter = {
+  format: "json",
+  extension: "json",
+  render(report) {
+    const document = {
+      generatedAt: report.generatedAt,
+      priceSource: report.priceSource,
+      ...(report.createdWindow && { createdWindow: report.createdWindow }),
+      summary: summarize(report),
+      tokenLabels: report.tokenLabels,
+      prices: report.prices,
+      permits: report.permits.map(serializePermit),
+      failedChecks: report.failedChecks,
+      dataQuality: report.skippedPermits,
+      dataWarnings: report.dataWarnings,
+      pendingByRepository: calculateRepositoryTotals(report.permits).map(
+        serializeRepositoryTotal,
+      ),
+      aging: {
+        partners: calculateAging(
+          report.permits,
+          "partner",
+          new Date(report.generatedAt),
+        ).map(serializeAging),
+        users: calculateAging(
+          report.permits,
+          "user",
+          new Date(report.generatedAt),
+        ).map(serializeAging),
+      },
+      ...(report.funding && { funding: report.funding.map(serializeFunding) }),
+      ...(report.reconciliation && { reconciliation: report.reconciliation }),
+    };
+    return `${JSON.stringify(document, null, 2)}\n`;
+  },
+};
+
+/**
+ * One JSON object per permit, one per line. Permits that could not be checked
+ * have `isClaimed: null` and an `error`; checked permits carry their data
+ * quality `warning`, or `null`.
+ */
+export const ndjsonWriter: ReportWriter = {
+  format: "ndjson",
+  extension: "ndjson",
+  render(report) {
+    const warnings = getWarningsByPermitId(report.dataWarnings);
+    return [
+      ...report.permits.map((permit) => ({
+        ...serializePermit(permit),
+        warning: warnings.get(permit.id) ?? null,
+      })),
+      ...report.failedChecks.map(serializeUnprocessed),
+      ...report.skippedPermits.map(serializeUnprocessed),
+    ]
+      .map((line) => `${JSON.stringify(line)}\n`)
+      .join("");
+  },
+};
@@ -0,0 +1,464 @@
+import { BigNumber } from "ethers";
+import { AGING_BUCKETS, calculateAging } from "../helpers/aging";
+import { getClaimUrl } from "../helpers/claim-url";
+import {
+  calculateUserWalletTotals,
+  calculateWalletTotals,
+  formatAddressLink,
+  formatBigNumber,
+  formatMarkdownTable,
+  generateUserRewardsTable,
+  PermitData,
+  generateWalletTotalsTable,
+  getAllUniqueTokensFromMaps,
+  sortTokensByLabel,
+  sumTokenTotals,
+} from "../helpers/formatting";
+import {
+  CLAIM_SOURCE_LABELS,
+  ClaimSource,
+  PERMIT_STATUS_LABELS,
+  PERMIT_STATUSES,
+  PermitStatus,
+} from "../helpers/status";
+import { getNetworkName, getTransactionUrl } from "../helpers/networks";
+import { RECONCILIATION_ISSUE_LABELS } from "../helpers/reconcile";
+import { calculateRepositoryTotals } from "../helpers/repository";
+import { formatUsd, valueTokenTotals } from "../helpers/valuation";
+import {
+  DataQualityWarning,
+  FundingRow,
+  PendingRewardsReport,
+  ReconciliationIssue,
+  ReportWriter,
+  UnprocessedPermit,
+} from "../types/report";
+
+function tokenLabel(report: PendingRewardsReport, token: string): string {
+  return report.tokenLabels[token] ?? token;
+}
+
+function renderFailedChecks(failedChecks: UnprocessedPermit[]): string {
+  const table = formatMarkdownTable(
+    ["Permit ID", "Nonce", "Network", "Partner", "Reason"],
+    failedChecks.map((failure) => [
+      String(failure.id),
+      failure.nonce,
+      failure.network === null ? "" : getNetworkName(failure.network),
+      failure.partnerAddress ?? "",
+      failure.reason,
+    ]),
+  );
+  return `## Failed Checks\n\n${table}\n`;
+}
+
+/**
+ * Lists every permit skipped because of its database row, and the checked
+ * ones whose row still needs fixing, so the rows can be fixed at the source.
+ */
+function renderDataQuality(
+  skippedPermits: UnprocessedPermit[],
+  dataWarnings: DataQualityWarning[],
+): string {
+  if (skippedPermits.length === 0 && dataWarnings.length === 0) {
+    return "## Data Quality\n\nNo data quality issues found.\n";
+  }
+
+  const parts = ["## Data Quality\n"];
+  if (skippedPermits.length > 0) {
+    const table = formatMarkdownTable(
+      ["Permit ID", "Nonce", "Reason"],
+      skippedPermits.map((skipped) => [
+        String(skipped.id),
+        skipped.nonce,
+        skipped.reason,
+      ]),
+    );
+    parts.push(
+      `Skipped permits (not counted above): ${skippedPermits.length}\n\n${table}\n`,
+    );
+  }
+  if (dataWarnings.length > 0) {
+    const table = formatMarkdownTable(
+      ["Permit ID", "Nonce", "Warning"],
+      dataWarnings.map((warning) => [
+        String(warning.id),
+        warning.nonce,
+        warning.reason,
+      ]),
+    );
+    parts.push(
+      `Warnings (checked and counted above): ${dataWarnings.length}\n\n${table}\n`,
+    );
+  }
+  return parts.join("\n");
+}
+
+/**
+ * A direct claim link for every claimable permit, grouped by user, so
+ * contributors can be sent their link instead of digging up old comments.
+ */
+function renderClaimLinks(permits: PermitData[]): string {
+  const claimable = permits
+    .filter((p) => p.status === "claimable")
+    .sort(
+      (a, b) =>
+        (a.userName ?? "").localeCompare(b.userName ?? "") || a.id - b.id,
+    );
+
+  const table = formatMarkdownTable(
+    ["User", "Permit ID", "Amount", "Token", "Issue", "Claim"],
+    claimable.map((permit) => [
+      permit.userName ?? permit.userAddress,
+      String(permit.id),
+      formatBigNumber(BigNumber.from(permit.amount), permit.tokenDecimals),
+      permit.tokenSymbol,
+      permit.issueUrl ? `[issue](${permit.issueUrl})` : "",
+      `[claim](${getClaimUrl(permit)})`,
+    ]),
+  );
+  return `## Claim Links\n\n${table}\n`;
+}
+
+/**
+ * Claimable totals per organization and repository, so each repository's
+ * maintainers can see what their contributors are still owed.
+ */
+function renderPendingByRepository(report: PendingRewardsReport): string {
+  const totals = calculateRepositoryTotals(report.permits);
+  const tokens = sortTokensByLabel(
+    Array.from(
+      new Set(totals.flatMap(({ tokenTotals }) => Object.keys(tokenTotals))),
+    ),
+    report.tokenLabels,
+  );
+
+  const rows = totals.map((total) => [
+    total.organization ?? "",
+    total.repository ?? "Unknown repository",
+    String(total.permitCount),
+    ...tokens.map((token) =>
+      formatBigNumber(
+        total.tokenTotals[token] || BigNumber.from(0),
+        report.tokenDecimals[token] ?? 18,
+      ),
+    ),
+    formatUsd(
+      valueTokenTotals(total.tokenTotals, report.tokenDecimals, report.prices),
+    ),
+  ]);
+
+  return `## Pending by Repository\n\n${formatMarkdownTable(
+    [
+      "Organization",
+      "Repository",
+      "Permits",
+      ...tokens.map((token) => tokenLabel(report, token)),
+      "Total (USD)",
+    ],
+    rows,
+  )}\n`;
+}
+
+/**
+ * Claimable amounts by how long ago the permits were created, measured from
+ * the report time, so old liabilities stand out.
+ */
+function renderAging(
+  report: PendingRewardsReport,
+  groupBy: "partner" | "user",
+): string {
+  const rows = calculateAging(
+    report.permits,
+    groupBy,
+    new Date(report.generatedAt),
+  );
+  const format = (value: BigNumber, token: string) =>
+    formatBigNumber(value, report.tokenDecimals[token] ?? 18);
+
+  const table = formatMarkdownTable(
+    [
+      ...(groupBy === "user" ? ["User Name"] : []),
+      "Wallet",
+      "Token",
+      ...AGING_BUCKETS.map((bucket) => bucket.label),
+      "Total",
+    ],
+    rows.map((row) => [
+      ...(groupBy === "user" ? [row.userName ?? ""] : []),
+      formatAddressLink(row.wallet, [row.network]),
+      tokenLabel(report, row.token),
+      ...AGING_BUCKETS.map((bucket) =>
+        format(row.buckets[bucket.id], row.token),
+      ),
+      format(row.total, row.token),
+    ]),
+  );
+  const title =
+    groupBy === "partner"
+      ? "Claimable Aging by Partner Wallet"
+      : "Claimable Aging by User";
+  return `## ${title}\n\n${table}\n`;
+}
+
+/**
+ * Whether each partner wallet can pay its claimable permits: the top up is
+ * the balance missing, the allowance gap what Permit2 is not allowed to pull.
+ */
+function renderFunding(
+  report: PendingRewardsReport,
+  funding: FundingRow[],
+): string {
+  if (funding.length === 0) {
+    return "## Partner Funding\n\nNo claimable permits to fund.\n";
+  }
+
+  const format = (value: BigNumber | null, token: string) =>
+    value === null
+      ? "unknown"
+      : formatBigNumber(value, report.tokenDecimals[token] ?? 18);
+  const table = formatMarkdownTable(
+    [
+      "Wallet",
+      "Token",
+      "Owed",
+      "Balance",
+      "Permit2 Allowance",
+      "Top Up",
+      "Allowance Gap",
+    ],
+    funding.map((row) => [
+      formatAddressLink(row.partnerAddress, [row.network]),
+      tokenLabel(report, row.token),
+      format(row.owed, row.token),
+      format(row.balance, row.token),
+      format(row.allowance, row.token),
+      row.error
+        ? `check failed: ${row.error}`
+        : format(row.balanceShortfall, row.token),
+      row.error ? "" : format(row.allowanceShortfall, row.token),
+    ]),
+  );
+  return `## Partner Funding\n\n${table}\n`;
+}
+
+function formatTransactionLink(hash: string | null, network: number): string {
+  const url = hash ? getTransactionUrl(network, hash) : null;
+  return url ? `[${hash}](${url})` : (hash ?? "");
+}
+
+function renderReconciliation(issues: ReconciliationIssue[]): string {
+  if (issues.length === 0) {
+    return "## Reconciliation\n\nRecorded transactions match the chain.\n";
+  }
+
+  const table = formatMarkdownTable(
+    ["Permit ID", "Nonce", "Network", "Issue", "Transaction", "Detail"],
+    issues.map((issue) => [
+      String(issue.permitId),
+      issue.nonce,
+      getNetworkName(issue.network),
+      RECONCILIATION_ISSUE_LABELS[issue.kind],
+      formatTransactionLink(issue.transaction, issue.network),
+      issue.detail,
+    ]),
+  );
+  return `## Reconciliation\n\nDiscrepancies between the database and the chain: ${issues.length}\n\n${table}\n`;
+}
+
+const STATUS_TABLE_TITLES: Partial<
+  Record<PermitStatus, { wallets: string; users: string }>
+> = {
+  claimable: { wallets: "Wallet Toppings", users: "User Rewards" },
+  expired: {
+    wallets: "Expired Wallet Liabilities",
+    users: "Expired User Rewards",
+  },
+  invalidated: {
+    wallets: "Invalidated Wallet Permits",
+    users: "Invalidated User Rewards",
+  },
+};
+
+/**
+ * Totals of every status class across all wallets, so claimable liabilities
+ * are never mixed with expired or invalidated permits.
+ */
+function renderStatusTotals(report: PendingRewardsReport): string {
+  const byStatus = PERMIT_STATUSES.map((status) => {
+    const permits = report.permits.filter((p) => p.status === status);
+    return { status, count: permits.length, totals: sumTokenTotals(permits) };
+  });
+  const tokens = sortTokensByLabel(
+    Array.from(new Set(byStatus.flatMap(({ totals }) => Object.keys(totals)))),
+    report.tokenLabels,
+  );
+
+  const rows = byStatus.map(({ status, count, totals }) => [
+    PERMIT_STATUS_LABELS[status],
+    String(count),
+    ...tokens.map((token) =>
+      formatBigNumber(
+        totals[token] || BigNumber.from(0),
+        report.tokenDecimals[token] ?? 18,
+      ),
+    ),
+    formatUsd(valueTokenTotals(totals, report.tokenDecimals, report.prices)),
+  ]);
+
+  const table = formatMarkdownTable(
+    [
+      "Status",
+      "Permits",
+      ...tokens.map((token) => tokenLabel(report, token)),
+      "Total (USD)",
+    ],
+    rows,
+  );
+  const unverified = report.permits.some((p) => p.status === "used")
+    ? `\n${PERMIT_STATUS_LABELS.used} nonces were used on chain, either by a claim or by the partner invalidating them; run with \`--scan-events\` to tell them apart.\n`
+    : "";
+  return `## Status Totals\n\n${table}\n${unverified}`;
+}
+
+function renderStatusTables(
+  report: PendingRewardsReport,
+  status: PermitStatus,
+  titles: { wallets: string; users: string },
+): string[] {
+  const permits = report.permits.filter((p) => p.status === status);
+  if (permits.length === 0) {
+    return [];
+  }
+
+  const walletTotals = calculateWalletTotals(
+    permits,
+    (permit) => permit.partnerAddress,
+  );
+  const userTotals = calculateUserWalletTotals(permits);
+  const tokens = sortTokensByLabel(
+    getAllUniqueTokensFromMaps(walletTotals, userTotals),
+    report.tokenLabels,
+  );
+
+  return [
+    generateWalletTotalsTable(
+      titles.wallets,
+      walletTotals,
+      tokens,
+      report.tokenDecimals,
+      report.prices,
+      report.tokenLabels,
+    ),
+    generateUserRewardsTable(
+      titles.users,
+      userTotals,
+      tokens,
+      report.tokenDecimals,
+      report.prices,
+      report.tokenLabels,
+    ),
+  ];
+}
+
+/**
+ * The aggregated report: per-status totals, then claimable, expired and
+ * invalidated amounts per partner wallet and per user.
+ */
+export const markdownWriter: ReportWriter = {
+  format: "markdown",
+  extension: "md",
+  render(report) {
+    const sections = [renderStatusTotals(report)];
+    for (const status of PERMIT_STATUSES) {
+      const titles = STATUS_TABLE_TITLES[status];
+      if (titles) {
+        sections.push(...renderStatusTables(report, status, titles));
+      }
+    }
+    if (report.permits.some((p) => p.status === "claimable")) {
+      sections.push(
+        renderPendingByRepository(report),
+        renderAging(report, "partner"),
+        renderAging(report, "user"),
+        renderClaimLinks(report.permits),
+      );
+    } else {
+      sections.push("_No claimable permits._\n");
+    }
+    if (report.funding) {
+      sections.push(renderFunding(report, report.funding));
+    }
+    if (report.failedChecks.length > 0) {
+      sections.push(renderFailedChecks(report.failedChecks));
+    }
+    sections.push(
+      renderDataQuality(report.skippedPermits, report.dataWarnings),
+    );
+    if (report.reconciliation) {
+      sections.push(renderReconciliation(report.reconciliation));
+    }
+
+    const summary = [
+      `- Total permits processed: ${report.permits.length}`,
+      `- Failed checks: ${report.failedChecks.length}`,
+      `- Skipped permits: ${report.skippedPermits.length}`,
+      `- Data quality warnings: ${report.dataWarnings.length}`,
+    ];
+    for (const status of PERMIT_STATUSES) {
+      summary.push(
+        `- ${PERMIT_STATUS_LABELS[status]} permits: ${
+          report.permits.filter((p) => p.status === status).length
+        }`,
+      );
+    }
+    // Only present when the event scan ran
+    if (report.permits.some((p) => p.claimSource)) {
+      for (const source of Object.keys(CLAIM_SOURCE_LABELS) as ClaimSource[]) {
+        summary.push(
+          `- Used nonces ${CLAIM_SOURCE_LABELS[source]}: ${
+            report.permits.filter((p) => p.claimSource === source).length
+          }`,
+        );
+      }
+    }
+
+    const claimableValuation = valueTokenTotals(
+      sumTokenTotals(report.permits.filter((p) => p.status === "claimable")),
+      report.tokenDecimals,
+      report.prices,
+    );
+    summary.push(`- Claimable value (USD): ${formatUsd(claimableValuation)}`);
+    if (claimableValuation.unpricedTokens.length > 0) {
+      summary.push(
+        `- Unpriced tokens: ${claimableValuation.unpricedTokens
+          .map((token) => tokenLabel(report, token))
+          .join(", ")}`,
+      );
+    }
+    if (report.funding) {
+      const underfunded = report.funding.filter(
+        (row) =>
+          !row.balanceShortfall.isZero() || !row.allowanceShortfall.isZero(),
+      );
+      summary.push(`- Underfunded wallet tokens: ${underfunded.length}`);
+    }
+    if (report.createdWindow) {
+      const { from, to } = report.createdWindow;
+      summary.push(
+        `- Permits created: ${from ? `from ${from}` : "from the start"} ${
+          to ? `until ${to}` : "until now"
+        }`,
+      );
+    }
+    summary.push(`- Price source: ${report.priceSource}`);
+
+    return `# Pending Rewards
+
+${sections.join("\n")}
+## Summary
+
+${summary.join("\n")}
+`;
+  },
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from "bun:test";
+import {
+  AgingBucketId,
+  calculateAging,
+  getAgingBucket,
+} from "../src/helpers/aging";
+import { makePermit, PARTNER } from "./fixtures";
+
+const AS_OF = new Date("2025-06-30T00:00:00Z");
+
+describe("getAgingBucket", () => {
+  it.each<[string, AgingBucketId]>([
+    ["2025-06-30T00:00:00Z", "0-30"],
+    ["2025-05-31T00:00:00Z", "0-30"],
+    ["2025-05-30T00:00:00Z", "31-90"],
+    ["2025-03-12T00:00:00Z", "91-365"],
+    ["2024-06-30T00:00:00Z", "91-365"],
+    ["2024-06-29T00:00:00Z", "365+"],
+    ["not a date", "unknown"],
+  ])("puts %s in %s", (created, bucket) => {
+    expect(getAgingBucket(created, AS_OF)).toBe(bucket);
+  });
+});
+
+describe("calculateAging", () => {
+  it("sums claimable permits per wallet and token by age", () => {
+    const permits = [
+      makePermit({ id: 1, amount: "100", created: "2025-06-20T00:00:00Z" }),
+      makePermit({ id: 2, amount: "50", created: "2025-06-01T00:00:00Z" }),
+      makePermit({ id: 3, amount: "7", created: "2025-01-01T00:00:00Z" }),
+      makePermit({ id: 6, amount: "3", created: "" }),
+      makePermit({ id: 4, amount: "1000", status: "claimed" }),
+      makePermit({ id: 5, amount: "1000", status: "expired" }),
+    ];
+
+    const [row, ...rest] = calculateAging(permits, "partner", AS_OF);
+
+    expect(rest).toEqual([]);
+    expect(row.wallet).toBe(PARTNER);
+    expect(row.userName).toBeUndefined();
+    expect(row.buckets["0-30"].toString()).toBe("150");
+    expect(row.buckets["31-90"].toString()).toBe("0");
+    expect(row.buckets["91-365"].toString()).toBe("7");
+    expect(row.buckets.unknown.toString()).toBe("3");
+    expect(row.total.toString()).toBe("160");
+  });
+
+  it("keeps one row per beneficiary for user aging", () => {
+    const permits = [
+      makePermit({
+        id: 1,
+        userName: "bob",
+        userAddress: "0x" + "b".repeat(40),
+      }),
+      makePermit({ id: 2 }),
+    ];
+
+    const rows = calculateAging(permits, "user", AS_OF);
+
+    expect(rows.map((row) => row.userName)).toEqual(["alice", "bob"]);
+  });
+});
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { getClaimUrl } from "../src/helpers/claim-url";
+import { makePermit, ONE_UUSD, PARTNER, USER, UUSD } from "./fixtures";
+
+// Above 2^53, so a numeric nonce would lose precision
+const LARGE_NONCE =
+  "115792089237316195423570985008687907853269984665640564039457";
+
+function decodeClaim(url: string) {
+  const encoded = new URL(url).searchParams.get("claim");
+  return JSON.parse(Buffer.from(encoded!, "base64").toString("utf8"));
+}
+
+describe("getClaimUrl", () => {
+  const saved = process.env.CLAIM_BASE_URL;
+
+  afterEach(() => {
+    if (saved === undefined) {
+      delete process.env.CLAIM_BASE_URL;
+    } else {
+      process.env.CLAIM_BASE_URL = saved;
+    }
+  });
+
+  it("encodes the signed transfer the claim UI expects", () => {
+    delete process.env.CLAIM_BASE_URL;
+    const url = getClaimUrl(
+      makePermit({ nonce: LARGE_NONCE, signature: "0xabcdef" }),
+    );
+
+    expect(url.startsWith("https://pay.ubq.fi?claim=")).toBe(true);
+    const claim = decodeClaim(url);
+    expect(claim).toEqual([
+      {
+        type: "erc20-permit",
+        permit: {
+          permitted: { token: UUSD, amount: ONE_UUSD },
+          nonce: LARGE_NONCE,
+          deadline: "4102444800",
+        },
+        transferDetails: { to: USER, requestedAmount: ONE_UUSD },
+        owner: PARTNER,
+        signature: "0xabcdef",
+        networkId: 100,
+      },
+    ]);
+    expect(claim[0].permit.nonce).toMatch(/^\d+$/);
+  });
+
+  it("points at CLAIM_BASE_URL when set", () => {
+    process.env.CLAIM_BASE_URL = " https://claim.example/pay ";
+
+    const url = getClaimUrl(makePermit());
+
+    expect(url.startsWith("https://claim.example/pay?claim=")).toBe(true);
+    expect(decodeClaim(url)[0].permit.nonce).toBe("1");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "bun:test";
+import { CliError, parseCliArgs } from "../src/helpers/cli";
+
+const WALLET = "0x9051eDa96dB419c967189F4Ac303a290F3327680";
+const TOKEN = "0xb6919Ef2ee4aFC163BC954C5678e2BB570c2D103";
+
+describe("parseCliArgs", () => {
+  it("defaults to the report command in markdown", () => {
+    const options = parseCliArgs([]);
+    expect(options.command).toBe("report");
+    expect(options.format).toBe("markdown");
+    expect(options.wallets).toEqual([]);
+  });
+
+  it("parses commands, their target and value flags in both forms", () => {
+    const options = parseCliArgs([
+      "partner",
+      WALLET,
+      "--network=gnosis,1",
+      "-t",
+      TOKEN,
+      "--format",
+      "json",
+      "--org",
+      "ubiquity",
+      "--repo",
+      "ubiquity/work.ubq.fi,123",
+    ]);
+    expect(options.command).toBe("partner");
+    expect(options.target).toBe(WALLET);
+    expect(options.networks).toEqual([100, 1]);
+    expect(options.tokens).toEqual([TOKEN]);
+    expect(options.format).toBe("json");
+    expect(options.organizations).toEqual(["ubiquity"]);
+    expect(options.repositories).toEqual(["ubiquity/work.ubq.fi", "123"]);
+  });
+
+  it("resolves network names and aliases in any case", () => {
+    const options = parseCliArgs([
+      "--network",
+      "Gnosis,xdai,MAINNET,anvil,137",
+    ]);
+    expect(options.networks).toEqual([100, 100, 1, 31337, 137]);
+  });
+
+  it("collects --token addresses across repeated flags", () => {
+    const other = "0x054Ec26398549588F3c958719bD17CC1e6E97c3C";
+    const options = parseCliArgs(["-t", TOKEN, `--token=${other}`]);
+    expect(options.tokens).toEqual([TOKEN, other]);
+  });
+
+  it("resolves durations against the reference time", () => {
+    const now = new Date("2025-03-31T00:00:00Z");
+    const options = parseCliArgs(["--since", "2w", "--until=2025-03-30"], now);
+    expect(options.since).toEqual(new Date("2025-03-17T00:00:00Z"));
+    expect(options.until).toEqual(new Date("2025-03-30T00:00:00Z"));
+    expect(options.window).toEqual({ since: "2w", until: "2025-03-30" });
+  });
+
+  it("splits --from-block into a default and per-network blocks", () => {
+    expect(parseCliArgs([]).defaultFromBlock).toBeUndefined();
+    const options = parseCliArgs(["--from-block", "5,gnosis:30000000"]);
+    expect(options.defaultFromBlock).toBe(5);
+    expect(options.fromBlocks).toEqual({ 100: 30000000 });
+  });
+
+  it("turns on the event scan for --write-back", () => {
+    const options = parseCliArgs(["--write-back", "--dry-run"]);
+    expect(options.scanEvents).toBe(true);
+    expect(options.dryRun).toBe(true);
+  });
+
+  it("takes up to two snapshot files for diff", () => {
+    expect(parseCliArgs(["diff", "a.json", "b.json"]).snapshotFiles).toEqual([
+      "a.json",
+      "b.json",
+    ]);
+    expect(() => parseCliArgs(["diff", "a", "b", "c"])).toThrow(
+      "Unexpected argument: c",
+    );
+  });
+
+  it.each([
+    [["frobnicate"], "Unknown command: frobnicate"],
+    [["--nope"], "Unknown option: --nope"],
+    [["--wallet"], "Option --wallet requires a value"],
+    [["--wallet", "0x123"], "Invalid wallet address: 0x123"],
+    [["--network", "mars"], "Invalid network id: mars"],
+    [["--network", "0"], "Invalid network id: 0"],
+    [["--token", "uusd"], "Invalid token address: uusd"],
+    [["--format", "xml"], "Unknown format: xml"],
+    [["--since", "yesterday"], "Invalid --since value: yesterday"],
+    [
+      ["--since", "1d", "--until", "2d"],
+      "--since must be earlier than --until",
+    ],
+    [["--dry-run"], "Option --dry-run requires --write-back"],
+    [["--cache", "x.json", "--no-cache"], "cannot be combined"],
+    [["user"], 'Command "user" requires a GitHub login, user id or wallet'],
+    [["diff", "--format", "csv"], 'Command "diff" supports the markdown'],
+  ])("rejects %p", (argv, message) => {
+    expect(() => parseCliArgs(argv)).toThrow(CliError);
+    expect(() => parseCliArgs(argv)).toThrow(message);
+  });
+});
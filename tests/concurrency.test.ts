@@ -0,0 +1,149 @@
+import { describe, expect, it } from "bun:test";
+import {
+  isRateLimitError,
+  mapWithConcurrency,
+  RateLimiter,
+} from "../src/helpers/concurrency";
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Wraps a task so the peak number of concurrent calls can be read afterwards.
+ */
+function trackInFlight() {
+  let inFlight = 0;
+  const tracker = {
+    peak: 0,
+    run: async <T>(task: () => Promise<T>): Promise<T> => {
+      inFlight++;
+      tracker.peak = Math.max(tracker.peak, inFlight);
+      try {
+        return await task();
+      } finally {
+        inFlight--;
+      }
+    },
+  };
+  return tracker;
+}
+
+describe("RateLimiter", () => {
+  it("keeps at most `concurrency` tasks in flight and resolves each with its own result", async () => {
+    const limiter = new RateLimiter({
+      concurrency: 3,
+      requestsPerSecond: 1000,
+    });
+    const tracker = trackInFlight();
+
+    const results = await Promise.all(
+      Array.from({ length: 10 }, (_, index) =>
+        limiter.schedule(() =>
+          tracker.run(async () => {
+            await sleep(5);
+            return index;
+          }),
+        ),
+      ),
+    );
+
+    expect(tracker.peak).toBe(3);
+    expect(results).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it("spaces task starts by the requests-per-second rate", async () => {
+    const limiter = new RateLimiter({ concurrency: 10, requestsPerSecond: 20 });
+    const startedAt: number[] = [];
+
+    await Promise.all(
+      Array.from({ length: 4 }, () =>
+        limiter.schedule(async () => {
+          startedAt.push(Date.now());
+        }),
+      ),
+    );
+
+    const gaps = startedAt
+      .slice(1)
+      .map((time, index) => time - startedAt[index]);
+    // 50ms apart, allowing for timer granularity
+    gaps.forEach((gap) => expect(gap).toBeGreaterThanOrEqual(45));
+  });
+
+  it("passes task errors through and keeps serving the queue", async () => {
+    const limiter = new RateLimiter({
+      concurrency: 1,
+      requestsPerSecond: 1000,
+    });
+
+    const failed = limiter.schedule(() => Promise.reject(new Error("boom")));
+    const next = limiter.schedule(async () => "next");
+
+    await expect(failed).rejects.toThrow("boom");
+    expect(await next).toBe("next");
+  });
+
+  it("halves the rate when a task is rate limited", async () => {
+    const limiter = new RateLimiter({ concurrency: 1, requestsPerSecond: 8 });
+
+    await expect(
+      limiter.schedule(() =>
+        Promise.reject(Object.assign(new Error("slow down"), { status: 429 })),
+      ),
+    ).rejects.toThrow("slow down");
+
+    expect(limiter.requestsPerSecond).toBe(4);
+  });
+});
+
+describe("mapWithConcurrency", () => {
+  it("bounds pending calls and keeps input order", async () => {
+    const tracker = trackInFlight();
+    const delays = [30, 5, 20, 1, 10, 2];
+
+    const results = await mapWithConcurrency(delays, 2, (delay, index) =>
+      tracker.run(async () => {
+        await sleep(delay);
+        return `${index}:${delay}`;
+      }),
+    );
+
+    expect(tracker.peak).toBe(2);
+    expect(results).toEqual(delays.map((delay, index) => `${index}:${delay}`));
+  });
+
+  it("rejects with the first error", async () => {
+    await expect(
+      mapWithConcurrency([1, 2, 3], 2, async (value) => {
+        if (value === 2) {
+          throw new Error(`failed ${value}`);
+        }
+        return value;
+      }),
+    ).rejects.toThrow("failed 2");
+  });
+});
+
+describe("isRateLimitError", () => {
+  it("recognises 429s, JSON-RPC limit errors and timeouts", () => {
+    expect(isRateLimitError({ status: 429 })).toBe(true);
+    expect(isRateLimitError({ code: "TIMEOUT" })).toBe(true);
+    expect(isRateLimitError({ error: { code: -32005 } })).toBe(true);
+    expect(
+      isRateLimitError({ error: { code: -32000, message: "rate limit hit" } }),
+    ).toBe(true);
+    expect(isRateLimitError(new Error("Too Many Requests"))).toBe(true);
+  });
+
+  it("ignores server errors whose response headers mention a timeout", () => {
+    expect(
+      isRateLimitError({
+        status: 503,
+        reason: "bad response",
+        message:
+          'bad response (status=503, headers={"keep-alive":"timeout=5"}, body="unavailable")',
+      }),
+    ).toBe(false);
+  });
+});
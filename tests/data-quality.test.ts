@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getDataWarning,
+  getSkipReason,
+  toUnprocessedPermit,
+} from "../src/helpers/data-quality";
+import { makePermitRow, UUSD } from "./fixtures";
+
+describe("getSkipReason", () => {
+  it("accepts a complete row", () => {
+    expect(getSkipReason(makePermitRow())).toBeNull();
+  });
+
+  it("leaves whether the network is reachable to the chain client", () => {
+    expect(
+      getSkipReason(makePermitRow({ tokens: { address: UUSD, network: 999 } })),
+    ).toBeNull();
+  });
+
+  it.each([
+    [{ partners: null }, "missing partner wallet"],
+    [{ partners: { wallets: null } }, "missing partner wallet"],
+    [{ tokens: null }, "missing token"],
+    [{ tokens: { address: "", network: 100 } }, "missing token address"],
+    [{ tokens: { address: UUSD, network: 0 } }, "missing token network"],
+    [
+      { users: { id: 1, wallets: { address: null } } },
+      "missing beneficiary wallet",
+    ],
+    [{ nonce: "0x01" }, "unparseable nonce: 0x01"],
+    [{ nonce: "2".repeat(80) }, `unparseable nonce: ${"2".repeat(80)}`],
+    [{ amount: "-5" }, "unparseable amount: -5"],
+    [{ deadline: "soon" }, "unparseable deadline: soon"],
+  ])("explains %p", (overrides, reason) => {
+    expect(getSkipReason(makePermitRow(overrides))).toBe(reason);
+  });
+});
+
+describe("getDataWarning", () => {
+  it("accepts a canonical nonce", () => {
+    expect(getDataWarning(makePermitRow())).toBeNull();
+  });
+
+  it("flags leading zeros without skipping the permit", () => {
+    const row = makePermitRow({ nonce: "007" });
+    expect(getSkipReason(row)).toBeNull();
+    expect(getDataWarning(row)).toEqual({
+      id: 1,
+      nonce: "007",
+      reason: "non-canonical nonce: 007",
+    });
+  });
+
+  it("flags a creation date that cannot be parsed", () => {
+    expect(getDataWarning(makePermitRow({ created: "yesterday" }))).toEqual({
+      id: 1,
+      nonce: "1",
+      reason: "unparseable created: yesterday",
+    });
+  });
+});
+
+describe("toUnprocessedPermit", () => {
+  it("keeps whatever the row has", () => {
+    expect(
+      toUnprocessedPermit(makePermitRow({ tokens: null }), "missing token"),
+    ).toMatchObject({
+      id: 1,
+      tokenAddress: null,
+      network: null,
+      reason: "missing token",
+    });
+  });
+});
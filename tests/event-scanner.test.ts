@@ -0,0 +1,172 @@
+import { describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { BigNumber, Contract, utils } from "ethers";
+import permit2Abi from "../src/abi/permit2.json";
+import {
+  isPermit2Claim,
+  labelUsedNonces,
+  Permit2EventScanner,
+} from "../src/helpers/event-scanner";
+import { PermitData } from "../src/helpers/formatting";
+import {
+  makePermit,
+  ONE_UUSD,
+  PARTNER,
+  permit2ClaimData,
+  transferLog,
+  USER,
+  UUSD,
+} from "./fixtures";
+import { LocalChain } from "./local-chain";
+
+const NETWORK = 31337;
+const OTHER_OWNER = "0x054Ec26398549588F3c958719bD17CC1e6E97c3C";
+const PERMIT2 = new utils.Interface(permit2Abi);
+const ERC20 = new utils.Interface([
+  "function transfer(address to, uint256 amount)",
+]);
+
+function invalidationLog(nonce: string) {
+  const value = BigNumber.from(nonce);
+  return {
+    address: PERMIT2_ADDRESS,
+    topics: [
+      utils.id("UnorderedNonceInvalidation(address,uint256,uint256)"),
+      utils.hexZeroPad(PARTNER, 32),
+    ],
+    data: utils.defaultAbiCoder.encode(
+      ["uint256", "uint256"],
+      [value.shr(8), BigNumber.from(1).shl(value.and(255).toNumber())],
+    ),
+  };
+}
+
+function usedPermit(id: number, nonce: string): PermitData {
+  return makePermit({
+    id,
+    nonce,
+    network: NETWORK,
+    isClaimed: true,
+    status: "used",
+  });
+}
+
+function scannerFor(chain: LocalChain) {
+  const scanner = new Permit2EventScanner(
+    chain.provider,
+    new Contract(PERMIT2_ADDRESS, permit2Abi, chain.provider),
+    { fromBlock: 0, chunkSize: 2 },
+  );
+  return () => scanner;
+}
+
+describe("isPermit2Claim", () => {
+  const permit = { nonce: "7", partnerAddress: PARTNER };
+  const permit2 = new Contract(PERMIT2_ADDRESS, permit2Abi);
+
+  it("accepts a permitTransferFrom call with the permit's nonce and owner", () => {
+    expect(
+      isPermit2Claim(
+        { to: PERMIT2_ADDRESS.toLowerCase(), data: permit2ClaimData("7") },
+        permit2,
+        permit,
+      ),
+    ).toBe(true);
+  });
+
+  it("finds the permit among the signatures of a batch", () => {
+    const data = PERMIT2.encodeFunctionData("batchPermitTransferFrom", [
+      [
+        { permitted: { token: UUSD, amount: ONE_UUSD }, nonce: 7, deadline: 0 },
+        { permitted: { token: UUSD, amount: ONE_UUSD }, nonce: 7, deadline: 0 },
+      ],
+      [
+        { to: USER, requestedAmount: ONE_UUSD },
+        { to: USER, requestedAmount: ONE_UUSD },
+      ],
+      [OTHER_OWNER, PARTNER],
+      ["0x", "0x"],
+    ]);
+    expect(isPermit2Claim({ to: PERMIT2_ADDRESS, data }, permit2, permit)).toBe(
+      true,
+    );
+  });
+
+  it.each([
+    ["another contract", { to: UUSD, data: permit2ClaimData("7") }],
+    ["another nonce", { to: PERMIT2_ADDRESS, data: permit2ClaimData("8") }],
+    [
+      "another owner",
+      { to: PERMIT2_ADDRESS, data: permit2ClaimData("7", OTHER_OWNER) },
+    ],
+    [
+      "another Permit2 method",
+      {
+        to: PERMIT2_ADDRESS,
+        data: PERMIT2.encodeFunctionData("invalidateUnorderedNonces", [0, 1]),
+      },
+    ],
+    ["undecodable call data", { to: PERMIT2_ADDRESS, data: "0x1234" }],
+  ])("rejects a call to %s", (_, transaction) => {
+    expect(isPermit2Claim(transaction, permit2, permit)).toBe(false);
+  });
+});
+
+describe("labelUsedNonces", () => {
+  it("matches transfers only to the Permit2 claim that made them", async () => {
+    const chain = new LocalChain();
+    // A plain payment of the same amount, before either claim
+    chain.mine({
+      from: PARTNER,
+      to: UUSD,
+      data: ERC20.encodeFunctionData("transfer", [USER, ONE_UUSD]),
+      logs: [transferLog()],
+    });
+    const claim = chain.mine({
+      from: USER,
+      to: PERMIT2_ADDRESS,
+      data: permit2ClaimData("1"),
+      logs: [transferLog()],
+    });
+    chain.mineEmpty(3);
+
+    const claimed = usedPermit(1, "1");
+    const unexplained = usedPermit(2, "2");
+    expect(
+      await labelUsedNonces([claimed, unexplained], scannerFor(chain)),
+    ).toBe(1);
+
+    expect(claimed.claimSource).toBe("transfer");
+    expect(claimed.claimTransaction).toBe(claim);
+    expect(claimed.status).toBe("claimed");
+    expect(unexplained.claimSource).toBeUndefined();
+    expect(unexplained.claimTransaction).toBeUndefined();
+    expect(unexplained.status).toBe("used");
+  });
+
+  it("marks a nonce invalidated before any claim as invalidated", async () => {
+    const chain = new LocalChain();
+    const invalidation = chain.mine({
+      from: PARTNER,
+      to: PERMIT2_ADDRESS,
+      data: PERMIT2.encodeFunctionData("invalidateUnorderedNonces", [0, 2]),
+      logs: [invalidationLog("1")],
+    });
+
+    const permit = usedPermit(1, "1");
+    expect(await labelUsedNonces([permit], scannerFor(chain))).toBe(0);
+
+    expect(permit.status).toBe("invalidated");
+    expect(permit.claimSource).toBe("invalidation");
+    expect(permit.claimTransaction).toBe(invalidation);
+  });
+
+  it("leaves permits with unused nonces alone", async () => {
+    const chain = new LocalChain();
+    const permit = makePermit({ network: NETWORK });
+
+    expect(await labelUsedNonces([permit], scannerFor(chain))).toBe(0);
+    expect(permit.status).toBe("claimable");
+    expect(chain.countRequests("eth_getLogs")).toBe(0);
+  });
+});
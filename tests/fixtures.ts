@@ -0,0 +1,115 @@
+import { spyOn } from "bun:test";
+import { BigNumber, utils } from "ethers";
+import permit2Abi from "../src/abi/permit2.json";
+import { TRANSFER_TOPIC } from "../src/helpers/event-scanner";
+import { PermitData } from "../src/helpers/formatting";
+import { PermitRow } from "../src/helpers/supabase";
+
+export const PARTNER = "0x9051eDa96dB419c967189F4Ac303a290F3327680";
+export const USER = "0x4007CE2083c7F3E18097aeB3A39bb8eC149a341d";
+export const UUSD = "0xb6919Ef2ee4aFC163BC954C5678e2BB570c2D103";
+export const ONE_UUSD = "1000000000000000000";
+
+const PERMIT2 = new utils.Interface(permit2Abi);
+
+/**
+ * A claimable 1 UUSD permit on Gnosis, with `overrides` applied.
+ */
+export function makePermit(overrides: Partial<PermitData> = {}): PermitData {
+  return {
+    id: 1,
+    nonce: "1",
+    amount: ONE_UUSD,
+    partnerAddress: PARTNER,
+    tokenAddress: UUSD,
+    tokenSymbol: "UUSD",
+    tokenDecimals: 18,
+    network: 100,
+    userAddress: USER,
+    userName: "alice",
+    isClaimed: false,
+    deadline: "4102444800",
+    created: "2025-01-01T00:00:00Z",
+    repository: "ubiquity/work.ubq.fi",
+    issueUrl: "https://github.com/ubiquity/work.ubq.fi/issues/1",
+    status: "claimable",
+    signature: "0x",
+    transaction: null,
+    ...overrides,
+  };
+}
+
+/**
+ * The database row of `makePermit()`, with `overrides` applied.
+ */
+export function makePermitRow(overrides: Partial<PermitRow> = {}): PermitRow {
+  return {
+    id: 1,
+    nonce: "1",
+    amount: ONE_UUSD,
+    deadline: "4102444800",
+    created: "2025-01-01T00:00:00Z",
+    signature: "0x",
+    transaction: null,
+    partners: { wallets: { address: PARTNER } },
+    tokens: { address: UUSD, network: 100 },
+    users: { id: 1, wallets: { address: USER } },
+    locations: null,
+    ...overrides,
+  };
+}
+
+/**
+ * Call data of a Permit2 `permitTransferFrom` paying 1 UUSD to `USER` with
+ * `nonce`, signed by `owner`.
+ */
+export function permit2ClaimData(nonce: string, owner = PARTNER): string {
+  return PERMIT2.encodeFunctionData(
+    "permitTransferFrom(((address,uint256),uint256,uint256),(address,uint256),address,bytes)",
+    [
+      { permitted: { token: UUSD, amount: ONE_UUSD }, nonce, deadline: 0 },
+      { to: USER, requestedAmount: ONE_UUSD },
+      owner,
+      "0x",
+    ],
+  );
+}
+
+/**
+ * A UUSD `Transfer` log from `PARTNER` to `USER`.
+ */
+export function transferLog(amount = ONE_UUSD) {
+  return {
+    address: UUSD,
+    topics: [
+      TRANSFER_TOPIC,
+      utils.hexZeroPad(PARTNER, 32),
+      utils.hexZeroPad(USER, 32),
+    ],
+    data: utils.hexZeroPad(BigNumber.from(amount).toHexString(), 32),
+  };
+}
+
+/**
+ * Answers requests to the GitHub API with `respond`, given the API path, and
+ * counts them; other requests go through. Call `restore` when done.
+ */
+export function stubGitHub(respond: (apiPath: string) => Response) {
+  const realFetch = globalThis.fetch;
+  const stub = {
+    lookups: 0,
+    restore: () => spy.mockRestore(),
+  };
+  const spy = spyOn(globalThis, "fetch").mockImplementation(((
+    input: string | URL | Request,
+    init?: RequestInit,
+  ) => {
+    const url = new URL(String(input));
+    if (url.origin === "https://api.github.com") {
+      stub.lookups++;
+      return Promise.resolve(respond(url.pathname));
+    }
+    return realFetch(input, init);
+  }) as typeof fetch);
+  return stub;
+}
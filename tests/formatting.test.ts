@@ -0,0 +1,108 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getTokenDecimalsByKey,
+  getTokenKey,
+  getTokenLabelsByKey,
+  PermitData,
+  sumTokenTotals,
+} from "../src/helpers/formatting";
+import { markdownWriter } from "../src/writers/markdown";
+import { makePermit, UUSD } from "./fixtures";
+
+const OTHER_TOKEN = "0x1111111111111111111111111111111111111111";
+
+describe("token columns", () => {
+  const permits = [
+    makePermit({ id: 1, amount: "1000000000000000000" }),
+    makePermit({
+      id: 2,
+      amount: "2500000",
+      tokenAddress: OTHER_TOKEN,
+      tokenDecimals: 6,
+    }),
+    makePermit({ id: 3, amount: "1000000000000000000", network: 1 }),
+  ];
+
+  it("keys tokens by network and address", () => {
+    expect(getTokenKey(permits[0])).toBe(`100:${UUSD.toLowerCase()}`);
+    expect(Object.keys(sumTokenTotals(permits))).toHaveLength(3);
+    expect(getTokenDecimalsByKey(permits)[`100:${OTHER_TOKEN}`]).toBe(6);
+  });
+
+  it("labels by symbol and network, adding the address when symbols clash", () => {
+    expect(getTokenLabelsByKey(permits)).toEqual({
+      [`100:${UUSD.toLowerCase()}`]: "UUSD (Gnosis, 0xb691...D103)",
+      [`100:${OTHER_TOKEN}`]: "UUSD (Gnosis, 0x1111...1111)",
+      [`1:${UUSD.toLowerCase()}`]: "UUSD (Ethereum)",
+    });
+  });
+
+  it("renders each token in its own column with its own decimals", () => {
+    const markdown = markdownWriter.render({
+      generatedAt: "2025-06-30T00:00:00.000Z",
+      permits,
+      failedChecks: [],
+      skippedPermits: [],
+      dataWarnings: [],
+      priceSource: "none",
+      tokenLabels: getTokenLabelsByKey(permits),
+      tokenDecimals: getTokenDecimalsByKey(permits),
+      prices: {},
+    });
+
+    const statusTotals = markdown.split("## Wallet Toppings")[0];
+    expect(statusTotals).toContain("UUSD (Gnosis, 0x1111...1111)");
+    expect(statusTotals).toContain("UUSD (Ethereum)");
+    expect(statusTotals).toMatch(
+      /\| Claimable\s+\| 3\s+\| 1\s+\| 2\.5\s+\| 1\s+\|/,
+    );
+  });
+
+  it("lists data quality warnings apart from skipped permits", () => {
+    const markdown = markdownWriter.render({
+      generatedAt: "2025-06-30T00:00:00.000Z",
+      permits,
+      failedChecks: [],
+      skippedPermits: [],
+      dataWarnings: [
+        { id: 9, nonce: "007", reason: "non-canonical nonce: 007" },
+      ],
+      priceSource: "none",
+      tokenLabels: getTokenLabelsByKey(permits),
+      tokenDecimals: getTokenDecimalsByKey(permits),
+      prices: {},
+    });
+
+    const dataQuality = markdown.split("## Data Quality")[1];
+    expect(dataQuality).toContain("Warnings (checked and counted above): 1");
+    expect(dataQuality).toMatch(
+      /\| 9\s+\| 007\s+\| non-canonical nonce: 007 \|/,
+    );
+    expect(dataQuality).not.toContain("not counted above");
+  });
+});
+
+describe("status totals", () => {
+  function render(permits: PermitData[]): string {
+    return markdownWriter.render({
+      generatedAt: "2025-06-30T00:00:00.000Z",
+      permits,
+      failedChecks: [],
+      skippedPermits: [],
+      dataWarnings: [],
+      priceSource: "none",
+      tokenLabels: getTokenLabelsByKey(permits),
+      tokenDecimals: getTokenDecimalsByKey(permits),
+      prices: {},
+    });
+  }
+
+  it("explains unverified used nonces", () => {
+    const used = makePermit({ isClaimed: true, status: "used" });
+
+    const statusTotals = render([used]).split("## Wallet Toppings")[0];
+    expect(statusTotals).toMatch(/\| Used \(unverified\)\s+\| 1\s+\|/);
+    expect(statusTotals).toContain("run with `--scan-events`");
+    expect(render([makePermit()])).not.toContain("--scan-events");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { BigNumber } from "ethers";
+import { checkPartnerFunding } from "../src/helpers/funding";
+import { ChainClient } from "../src/helpers/web3";
+import { makePermit, ONE_UUSD, PARTNER, UUSD } from "./fixtures";
+import { LocalChain } from "./local-chain";
+
+const NETWORK = 31337;
+const ONE = BigNumber.from(ONE_UUSD);
+const OTHER_PARTNER = "0x1111111111111111111111111111111111111111";
+const BROKEN_TOKEN = "0x2222222222222222222222222222222222222222";
+
+function deployFundedToken(
+  chain: LocalChain,
+  address: string,
+  funds: Record<string, { balance: BigNumber; allowance: BigNumber }>,
+): void {
+  const fundsOf = (owner: string) => {
+    const entry = funds[owner.toLowerCase()];
+    if (!entry) {
+      throw new Error(`no funds for ${owner}`);
+    }
+    return entry;
+  };
+  chain.deploy(
+    address,
+    [
+      "function balanceOf(address owner) view returns (uint256)",
+      "function allowance(address owner, address spender) view returns (uint256)",
+    ],
+    {
+      balanceOf: (owner: string) => fundsOf(owner).balance,
+      allowance: (owner: string, spender: string) => {
+        if (spender !== PERMIT2_ADDRESS) {
+          throw new Error(`unexpected spender ${spender}`);
+        }
+        return fundsOf(owner).allowance;
+      },
+    },
+  );
+}
+
+describe("checkPartnerFunding", () => {
+  it("flags balances and allowances below the claimable total of each wallet", async () => {
+    const chain = new LocalChain();
+    deployFundedToken(chain, UUSD, {
+      [PARTNER.toLowerCase()]: {
+        balance: ONE.mul(2),
+        allowance: ONE.mul(5),
+      },
+      [OTHER_PARTNER]: { balance: ONE, allowance: ONE.div(2) },
+    });
+    const client = new ChainClient(() => chain.provider);
+    const permits = [
+      makePermit({ id: 1, network: NETWORK, amount: ONE_UUSD }),
+      makePermit({
+        id: 2,
+        network: NETWORK,
+        amount: ONE.mul(2).toString(),
+      }),
+      // Only claimable permits are owed
+      makePermit({ id: 3, network: NETWORK, status: "expired" }),
+      makePermit({ id: 4, network: NETWORK, status: "used" }),
+      makePermit({
+        id: 5,
+        network: NETWORK,
+        partnerAddress: OTHER_PARTNER,
+        amount: ONE_UUSD,
+      }),
+    ];
+
+    const rows = await checkPartnerFunding(
+      permits,
+      (address, network) => client.getErc20(address, network),
+      PERMIT2_ADDRESS,
+      2,
+    );
+
+    expect(
+      rows.map((row) => ({
+        partner: row.partnerAddress,
+        owed: row.owed.toString(),
+        balanceShortfall: row.balanceShortfall.toString(),
+        allowanceShortfall: row.allowanceShortfall.toString(),
+      })),
+    ).toEqual([
+      {
+        partner: OTHER_PARTNER,
+        owed: ONE.toString(),
+        balanceShortfall: "0",
+        allowanceShortfall: ONE.div(2).toString(),
+      },
+      {
+        partner: PARTNER,
+        owed: ONE.mul(3).toString(),
+        balanceShortfall: ONE.toString(),
+        allowanceShortfall: "0",
+      },
+    ]);
+  });
+
+  it("keeps the owed total and reports the error when a read fails", async () => {
+    const chain = new LocalChain();
+    deployFundedToken(chain, BROKEN_TOKEN, {});
+    const client = new ChainClient(() => chain.provider);
+
+    const [row] = await checkPartnerFunding(
+      [makePermit({ network: NETWORK, tokenAddress: BROKEN_TOKEN })],
+      (address, network) => client.getErc20(address, network),
+      PERMIT2_ADDRESS,
+      1,
+    );
+
+    expect(row.owed.toString()).toBe(ONE_UUSD);
+    expect(row.balance).toBeNull();
+    expect(row.allowance).toBeNull();
+    expect(row.balanceShortfall.isZero()).toBe(true);
+    expect(row.error).toBeDefined();
+  });
+});
@@ -0,0 +1,79 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import permit2Abi from "../src/abi/permit2.json";
+import { QuietLogger } from "../src/helpers/logger";
+import { checkPendingRewards } from "../src/lib";
+import { makePermitRow, PARTNER, UUSD } from "./fixtures";
+import { deployPermit2, deployToken, LocalChain } from "./local-chain";
+import { LocalPostgrest } from "./local-postgrest";
+
+const SERVED_NETWORK = 999;
+
+describe("checkPendingRewards", () => {
+  let postgrest: LocalPostgrest;
+
+  afterEach(() => postgrest.stop());
+
+  it("skips permits on networks the injected providers do not serve", async () => {
+    const chain = new LocalChain();
+    deployPermit2(chain, PERMIT2_ADDRESS, permit2Abi);
+    deployToken(chain, UUSD, { symbol: "UUSD", decimals: 18 });
+    postgrest = new LocalPostgrest({
+      permits: [
+        makePermitRow({ id: 1, tokens: { address: UUSD, network: 100 } }),
+        makePermitRow({
+          id: 2,
+          tokens: { address: UUSD, network: SERVED_NETWORK },
+        }),
+      ],
+    });
+
+    const { report } = await checkPendingRewards({
+      supabase: await postgrest.start(),
+      logger: new QuietLogger(),
+      getProvider: (network) => {
+        if (network !== SERVED_NETWORK) {
+          throw new Error(`no provider for ${network}`);
+        }
+        return chain.provider;
+      },
+      resolveUsernames: false,
+    });
+
+    expect(report.permits.map((permit) => permit.id)).toEqual([2]);
+    expect(report.permits[0].status).toBe("claimable");
+    expect(report.skippedPermits).toMatchObject([
+      { id: 1, reason: "unknown network: 100" },
+    ]);
+    expect(report.failedChecks).toEqual([]);
+  });
+
+  it("checks non-canonical nonces on chain and keeps them verbatim", async () => {
+    const chain = new LocalChain();
+    deployPermit2(chain, PERMIT2_ADDRESS, permit2Abi).useNonce(PARTNER, "256");
+    deployToken(chain, UUSD, { symbol: "UUSD", decimals: 18 });
+    postgrest = new LocalPostgrest({
+      permits: [
+        makePermitRow({
+          nonce: "0256",
+          tokens: { address: UUSD, network: SERVED_NETWORK },
+        }),
+      ],
+    });
+
+    const { report } = await checkPendingRewards({
+      supabase: await postgrest.start(),
+      logger: new QuietLogger(),
+      getProvider: () => chain.provider,
+      resolveUsernames: false,
+    });
+
+    expect(report.permits).toMatchObject([
+      { nonce: "0256", status: "used" },
+    ]);
+    expect(report.skippedPermits).toEqual([]);
+    expect(report.dataWarnings).toEqual([
+      { id: 1, nonce: "0256", reason: "non-canonical nonce: 0256" },
+    ]);
+  });
+});
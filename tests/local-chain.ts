@@ -0,0 +1,365 @@
+import { BigNumber, ContractInterface, providers, utils } from "ethers";
+import { MULTICALL3_ADDRESS } from "../src/helpers/multicall";
+
+const CHAIN_ID = 31337;
+
+const MULTICALL3_INTERFACE = new utils.Interface([
+  "function aggregate3(tuple(address target, bool allowFailure, bytes callData)[] calls) payable returns (tuple(bool success, bytes returnData)[] returnData)",
+]);
+
+/**
+ * Method implementations of a contract, keyed by function name. Each method
+ * declares the types its ABI decodes the arguments to. Returning a value
+ * answers the call; throwing reverts it.
+ */
+export type ContractImplementation = Record<
+  string,
+  (...args: never[]) => unknown
+>;
+
+type ContractMethod = (...args: unknown[]) => unknown;
+
+interface CallRequest {
+  to: string;
+  data: string;
+}
+
+interface LogFilter {
+  address?: string;
+  topics?: (string | null)[];
+  fromBlock: string;
+  toBlock: string;
+}
+
+export interface RecordedLog {
+  address: string;
+  topics: string[];
+  data: string;
+}
+
+export interface RecordedTransaction {
+  from: string;
+  to: string;
+  data?: string;
+  logs?: RecordedLog[];
+  /** Defaults to a successful transaction */
+  reverted?: boolean;
+}
+
+interface MinedTransaction extends Required<RecordedTransaction> {
+  hash: string;
+  blockNumber: number;
+}
+
+interface Execution {
+  to: string;
+  method: string;
+  /** Whether the call came over RPC rather than from inside `aggregate3` */
+  direct: boolean;
+}
+
+class RevertError extends Error {
+  // Shaped like a node's JSON-RPC error so ethers treats it as a revert
+  readonly error = { code: 3, message: "execution reverted", data: "0x" };
+
+  constructor() {
+    super("execution reverted");
+  }
+}
+
+function toQuantity(value: number): string {
+  return utils.hexValue(value);
+}
+
+/**
+ * An in-process stand-in for a local development node. Contracts are
+ * JavaScript implementations behind their real ABI encoding, Multicall3's
+ * `aggregate3` runs its sub-calls the way the deployed contract does, and
+ * transactions are recorded with their logs and receipts in one block each.
+ * Every RPC request and contract execution is counted.
+ *
+ * This is not a forked chain: the contracts are stand-ins written against
+ * their ABIs, not the deployed bytecode. See the README for running the tool
+ * against a local Anvil fork.
+ */
+export class LocalChain {
+  readonly executions: Execution[] = [];
+  readonly requests: { method: string; params: unknown[] }[] = [];
+  readonly provider: providers.JsonRpcProvider;
+  private _contracts = new Map<
+    string,
+    { iface: utils.Interface; implementation: ContractImplementation }
+  >();
+  private _transactions: MinedTransaction[] = [];
+  private _blockNumber = 0;
+
+  constructor({ multicall = true }: { multicall?: boolean } = {}) {
+    if (multicall) {
+      this.deploy(MULTICALL3_ADDRESS, MULTICALL3_INTERFACE, {
+        aggregate3: (calls: [string, boolean, string][]) =>
+          calls.map(([target, allowFailure, callData]) => {
+            try {
+              return [true, this._execute(target, callData, false)];
+            } catch (error) {
+              if (!allowFailure) {
+                throw error;
+              }
+              return [false, "0x"];
+            }
+          }),
+      });
+    }
+
+    const send = (method: string, params: unknown[]) =>
+      this._send(method, params);
+    this.provider = new (class extends providers.StaticJsonRpcProvider {
+      send(method: string, params: unknown[]): Promise<unknown> {
+        return send(method, params);
+      }
+    })("http://local-chain.invalid", CHAIN_ID);
+  }
+
+  get blockNumber(): number {
+    return this._blockNumber;
+  }
+
+  deploy(
+    address: string,
+    abi: ContractInterface,
+    implementation: ContractImplementation,
+  ): void {
+    const iface =
+      abi instanceof utils.Interface ? abi : new utils.Interface(abi);
+    this._contracts.set(address.toLowerCase(), { iface, implementation });
+  }
+
+  /**
+   * Mines a transaction in a block of its own.
+   *
+   * @returns The transaction hash
+   */
+  mine(transaction: RecordedTransaction): string {
+    this._blockNumber++;
+    const hash = utils.id(`transaction-${this._transactions.length}`);
+    this._transactions.push({
+      data: "0x",
+      logs: [],
+      reverted: false,
+      ...transaction,
+      hash,
+      blockNumber: this._blockNumber,
+    });
+    return hash;
+  }
+
+  /** Advances the chain by empty blocks. */
+  mineEmpty(blocks: number): void {
+    this._blockNumber += blocks;
+  }
+
+  /**
+   * Contract executions of `method`, counting those inside `aggregate3`
+   * unless `direct` is set.
+   */
+  countExecutions(method: string, { direct = false } = {}): number {
+    return this.executions.filter(
+      (execution) =>
+        execution.method === method && (!direct || execution.direct),
+    ).length;
+  }
+
+  countRequests(method: string): number {
+    return this.requests.filter((request) => request.method === method).length;
+  }
+
+  private _execute(to: string, data: string, direct: boolean): string {
+    const contract = this._contracts.get(to.toLowerCase());
+    if (!contract) {
+      // Calls to an address without code succeed with empty return data
+      return "0x";
+    }
+    const call = contract.iface.parseTransaction({ data });
+    this.executions.push({ to: to.toLowerCase(), method: call.name, direct });
+    const method = contract.implementation[call.name];
+    if (!method) {
+      throw new RevertError();
+    }
+    let result: unknown;
+    try {
+      // The ABI decoded the arguments to the types the method declares
+      result = (method as ContractMethod)(...call.args);
+    } catch {
+      throw new RevertError();
+    }
+    return contract.iface.encodeFunctionResult(
+      call.functionFragment,
+      call.functionFragment.outputs?.length === 1 ? [result] : (result as []),
+    );
+  }
+
+  private async _send(method: string, params: unknown[]): Promise<unknown> {
+    this.requests.push({ method, params });
+    switch (method) {
+      case "eth_chainId":
+        return toQuantity(CHAIN_ID);
+      case "eth_blockNumber":
+        return toQuantity(this._blockNumber);
+      case "eth_call": {
+        const { to, data } = params[0] as CallRequest;
+        return this._execute(to, data, true);
+      }
+      case "eth_getLogs":
+        return this._getLogs(params[0] as LogFilter);
+      case "eth_getTransactionByHash":
+        return this._getTransaction(params[0] as string);
+      case "eth_getTransactionReceipt":
+        return this._getReceipt(params[0] as string);
+      default:
+        throw new Error(`LocalChain does not support ${method}`);
+    }
+  }
+
+  private _blockHash(blockNumber: number): string {
+    return utils.id(`block-${blockNumber}`);
+  }
+
+  private _formatLogs(transaction: MinedTransaction) {
+    if (transaction.reverted) {
+      return [];
+    }
+    const index = this._transactions.indexOf(transaction);
+    return transaction.logs.map((log, logIndex) => ({
+      address: log.address.toLowerCase(),
+      topics: log.topics,
+      data: log.data,
+      blockNumber: toQuantity(transaction.blockNumber),
+      blockHash: this._blockHash(transaction.blockNumber),
+      transactionHash: transaction.hash,
+      transactionIndex: "0x0",
+      logIndex: toQuantity(index * 100 + logIndex),
+      removed: false,
+    }));
+  }
+
+  private _getLogs(filter: LogFilter) {
+    const fromBlock = BigNumber.from(filter.fromBlock).toNumber();
+    const toBlock = BigNumber.from(filter.toBlock).toNumber();
+    return this._transactions
+      .filter(
+        (transaction) =>
+          transaction.blockNumber >= fromBlock &&
+          transaction.blockNumber <= toBlock,
+      )
+      .flatMap((transaction) => this._formatLogs(transaction))
+      .filter(
+        (log) =>
+          (!filter.address || log.address === filter.address.toLowerCase()) &&
+          (filter.topics ?? []).every(
+            (topic, index) =>
+              topic === null ||
+              log.topics[index]?.toLowerCase() === topic.toLowerCase(),
+          ),
+      );
+  }
+
+  private _find(hash: string): MinedTransaction | undefined {
+    return this._transactions.find((transaction) => transaction.hash === hash);
+  }
+
+  private _getTransaction(hash: string) {
+    const transaction = this._find(hash);
+    if (!transaction) {
+      return null;
+    }
+    return {
+      hash: transaction.hash,
+      blockHash: this._blockHash(transaction.blockNumber),
+      blockNumber: toQuantity(transaction.blockNumber),
+      transactionIndex: "0x0",
+      type: "0x0",
+      from: transaction.from,
+      to: transaction.to,
+      input: transaction.data,
+      value: "0x0",
+      nonce: "0x0",
+      gas: toQuantity(200000),
+      gasPrice: toQuantity(1),
+      chainId: toQuantity(CHAIN_ID),
+      v: toQuantity(CHAIN_ID * 2 + 35),
+      r: utils.hexZeroPad("0x1", 32),
+      s: utils.hexZeroPad("0x1", 32),
+    };
+  }
+
+  private _getReceipt(hash: string) {
+    const transaction = this._find(hash);
+    if (!transaction) {
+      return null;
+    }
+    return {
+      transactionHash: transaction.hash,
+      blockHash: this._blockHash(transaction.blockNumber),
+      blockNumber: toQuantity(transaction.blockNumber),
+      transactionIndex: "0x0",
+      type: "0x0",
+      from: transaction.from,
+      to: transaction.to,
+      contractAddress: null,
+      cumulativeGasUsed: toQuantity(100000),
+      gasUsed: toQuantity(100000),
+      effectiveGasPrice: toQuantity(1),
+      logsBloom: utils.hexZeroPad("0x", 256),
+      logs: this._formatLogs(transaction),
+      status: transaction.reverted ? "0x0" : "0x1",
+    };
+  }
+}
+
+/**
+ * Deploys a Permit2 stand-in that answers `nonceBitmap` from the nonces marked
+ * with `useNonce`.
+ */
+export function deployPermit2(
+  chain: LocalChain,
+  address: string,
+  abi: ContractInterface,
+) {
+  const bitmaps = new Map<string, BigNumber>();
+  const key = (owner: string, wordPos: BigNumber) =>
+    `${owner.toLowerCase()}-${wordPos.toString()}`;
+
+  chain.deploy(address, abi, {
+    nonceBitmap: (owner: string, wordPos: BigNumber) =>
+      bitmaps.get(key(owner, wordPos)) ?? BigNumber.from(0),
+  });
+
+  return {
+    useNonce(owner: string, nonce: string) {
+      const value = BigNumber.from(nonce);
+      const wordKey = key(owner, value.shr(8));
+      const bitmap = bitmaps.get(wordKey) ?? BigNumber.from(0);
+      bitmaps.set(
+        wordKey,
+        bitmap.or(BigNumber.from(1).shl(value.and(255).toNumber())),
+      );
+    },
+  };
+}
+
+/**
+ * Deploys an ERC20 stand-in with fixed metadata.
+ */
+export function deployToken(
+  chain: LocalChain,
+  address: string,
+  { symbol, decimals }: { symbol: string; decimals: number },
+): void {
+  chain.deploy(
+    address,
+    [
+      "function symbol() view returns (string)",
+      "function decimals() view returns (uint8)",
+    ],
+    { symbol: () => symbol, decimals: () => decimals },
+  );
+}
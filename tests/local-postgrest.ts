@@ -0,0 +1,176 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { Database } from "../src/types/database";
+
+type Row = { id: number };
+
+type Embed = Record<string, unknown>;
+
+export interface RecordedRequest {
+  method: string;
+  table: string;
+  params: URLSearchParams;
+}
+
+const NON_FILTER_PARAMS = ["select", "order", "offset", "limit", "columns"];
+
+function evaluate(value: unknown, filter: string): boolean {
+  const negated = filter.startsWith("not.");
+  const [operator, ...rest] = (negated ? filter.slice(4) : filter).split(".");
+  const operand = rest.join(".");
+  let result: boolean;
+  switch (operator) {
+    case "eq":
+      result = String(value) === operand;
+      break;
+    case "is":
+      result = operand === "null" ? value === null : String(value) === operand;
+      break;
+    case "gte":
+      result = String(value) >= operand;
+      break;
+    case "lt":
+      result = String(value) < operand;
+      break;
+    case "in":
+      result = operand
+        .replace(/^\(|\)$/g, "")
+        .split(",")
+        .includes(String(value));
+      break;
+    case "ilike":
+      result = String(value).toLowerCase() === operand.toLowerCase();
+      break;
+    default:
+      throw new Error(`Unsupported filter ${filter}`);
+  }
+  return result !== negated;
+}
+
+/**
+ * Filters rows the way PostgREST does for rows stored with their embeds
+ * joined: a filter on an embedded resource (`partners.wallets.address=...`)
+ * nulls that embed when it does not match, innermost first, and top-level
+ * filters (including `partners=not.is.null`) then decide which rows remain.
+ */
+function applyFilters(rows: Row[], params: URLSearchParams): Row[] {
+  const filters = Array.from(params).filter(
+    ([column]) => !NON_FILTER_PARAMS.includes(column),
+  );
+  const embedded = filters
+    .filter(([column]) => column.includes("."))
+    .sort(([a], [b]) => b.split(".").length - a.split(".").length);
+  const topLevel = filters.filter(([column]) => !column.includes("."));
+
+  return rows
+    .map((row) => structuredClone(row) as Row & Embed)
+    .filter((row) => {
+      for (const [column, filter] of embedded) {
+        const path = column.split(".");
+        const name = path.pop()!;
+        const parentPath = path.slice(0, -1);
+        const embed = path[path.length - 1];
+        const parent = parentPath.reduce<Embed | null | undefined>(
+          (value, key) => value?.[key] as Embed | null | undefined,
+          row,
+        );
+        const child = parent?.[embed] as Embed | null | undefined;
+        if (parent && child && !evaluate(child[name], filter)) {
+          parent[embed] = null;
+        }
+      }
+      return topLevel.every(([column, filter]) =>
+        evaluate(row[column], filter),
+      );
+    });
+}
+
+/**
+ * An in-process stand-in for PostgREST over in-memory tables: enough of
+ * `GET` (filters, `offset`/`limit`) and `PATCH` (filters, `select` through
+ * `Prefer: return=representation`) for the queries this tool makes. Every
+ * request is recorded.
+ */
+export class LocalPostgrest {
+  readonly requests: RecordedRequest[] = [];
+  /** How many of the next PATCH requests fail with a 503 */
+  failNextWrites = 0;
+  private _server: Server;
+
+  constructor(readonly tables: Record<string, Row[]>) {
+    this._server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", () => {
+        const url = new URL(request.url ?? "/", "http://localhost");
+        const table = url.pathname.replace(/^\/rest\/v1\//, "");
+        const params = url.searchParams;
+        this.requests.push({ method: request.method ?? "GET", table, params });
+
+        const send = (status: number, payload: unknown) => {
+          response.writeHead(status, { "Content-Type": "application/json" });
+          response.end(JSON.stringify(payload));
+        };
+
+        const rows = this.tables[table];
+        if (!rows) {
+          send(404, { message: `relation "${table}" does not exist` });
+          return;
+        }
+
+        if (request.method === "GET") {
+          const offset = Number(params.get("offset") ?? 0);
+          const limit = Number(params.get("limit") ?? rows.length);
+          send(200, applyFilters(rows, params).slice(offset, offset + limit));
+          return;
+        }
+
+        if (request.method === "PATCH") {
+          if (this.failNextWrites > 0) {
+            this.failNextWrites--;
+            send(503, { message: "service unavailable" });
+            return;
+          }
+          const changes = JSON.parse(body) as object;
+          const ids = new Set(applyFilters(rows, params).map((row) => row.id));
+          const updated = rows.filter((row) => ids.has(row.id));
+          updated.forEach((row) => Object.assign(row, changes));
+          send(200, updated);
+          return;
+        }
+
+        send(405, { message: `${request.method} not supported` });
+      });
+    });
+  }
+
+  /**
+   * Starts listening on a free local port.
+   *
+   * @returns A Supabase client talking to the stand-in
+   */
+  async start(): Promise<SupabaseClient<Database>> {
+    await new Promise<void>((resolve) =>
+      this._server.listen(0, "127.0.0.1", resolve),
+    );
+    const { port } = this._server.address() as AddressInfo;
+    return createClient<Database>(`http://127.0.0.1:${port}`, "test-key", {
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => {
+      this._server.close(() => resolve());
+      this._server.closeAllConnections();
+    });
+  }
+
+  /** Requests of `method` to `table`. */
+  requestsTo(method: string, table: string): RecordedRequest[] {
+    return this.requests.filter(
+      (request) => request.method === method && request.table === table,
+    );
+  }
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import { Contract } from "ethers";
+import { MulticallBatcher } from "../src/helpers/multicall";
+import { ERC20_ABI } from "../src/helpers/web3";
+import { deployToken, LocalChain } from "./local-chain";
+
+const UUSD = "0xb6919Ef2ee4aFC163BC954C5678e2BB570c2D103";
+const WXDAI = "0xe91D153E0b41518A2Ce8Dd3D7944Fa863463a97d";
+const BROKEN = "0x1111111111111111111111111111111111111111";
+
+describe("MulticallBatcher", () => {
+  let warn: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    warn = spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  function setUp(options: { multicall?: boolean } = {}) {
+    const chain = new LocalChain(options);
+    deployToken(chain, UUSD, { symbol: "UUSD", decimals: 18 });
+    deployToken(chain, WXDAI, { symbol: "WXDAI", decimals: 18 });
+    chain.deploy(BROKEN, ERC20_ABI, {
+      symbol: () => {
+        throw new Error("no symbol");
+      },
+      decimals: () => 6,
+    });
+    const token = (address: string) =>
+      new Contract(address, ERC20_ABI, chain.provider);
+    return { chain, token };
+  }
+
+  it("packs calls made in the same tick into one aggregate3 request", async () => {
+    const { chain, token } = setUp();
+    const batcher = new MulticallBatcher(chain.provider, 10);
+
+    const results = await Promise.all([
+      batcher.call<string>(token(UUSD), "symbol"),
+      batcher.call<string>(token(WXDAI), "symbol"),
+      batcher.call<number>(token(UUSD), "decimals"),
+    ]);
+
+    expect(results).toEqual(["UUSD", "WXDAI", 18]);
+    expect(chain.countRequests("eth_call")).toBe(1);
+    expect(chain.countExecutions("aggregate3")).toBe(1);
+    expect(chain.countExecutions("symbol")).toBe(2);
+  });
+
+  it("splits the queue into batches of the configured size", async () => {
+    const { chain, token } = setUp();
+    const batcher = new MulticallBatcher(chain.provider, 2);
+
+    await Promise.all([
+      batcher.call(token(UUSD), "symbol"),
+      batcher.call(token(WXDAI), "symbol"),
+      batcher.call(token(UUSD), "decimals"),
+    ]);
+
+    expect(chain.countExecutions("aggregate3")).toBe(2);
+  });
+
+  it("retries only the failed sub-call as a single call", async () => {
+    const { chain, token } = setUp();
+    const batcher = new MulticallBatcher(chain.provider, 10);
+
+    const [uusd, broken, decimals] = await Promise.allSettled([
+      batcher.call<string>(token(UUSD), "symbol"),
+      batcher.call<string>(token(BROKEN), "symbol"),
+      batcher.call<number>(token(BROKEN), "decimals"),
+    ]);
+
+    expect(uusd).toEqual({ status: "fulfilled", value: "UUSD" });
+    expect(broken.status).toBe("rejected");
+    expect(decimals).toEqual({ status: "fulfilled", value: 6 });
+    expect(chain.countExecutions("aggregate3")).toBe(1);
+    // The failed symbol is asked once more on its own, nothing else is
+    expect(chain.countExecutions("symbol", { direct: true })).toBe(1);
+    expect(chain.countExecutions("decimals", { direct: true })).toBe(0);
+  });
+
+  it("falls back to single calls when Multicall3 is not deployed", async () => {
+    const { chain, token } = setUp({ multicall: false });
+    const batcher = new MulticallBatcher(chain.provider, 10);
+
+    const results = await Promise.all([
+      batcher.call<string>(token(UUSD), "symbol"),
+      batcher.call<string>(token(WXDAI), "symbol"),
+    ]);
+
+    expect(results).toEqual(["UUSD", "WXDAI"]);
+    expect(chain.countExecutions("symbol", { direct: true })).toBe(2);
+    expect(warn).toHaveBeenCalled();
+  });
+});
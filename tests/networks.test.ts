@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import {
+  findNetworkByName,
+  getAddressUrl,
+  getNetworkName,
+  getTransactionUrl,
+  NETWORKS,
+} from "../src/helpers/networks";
+import { PARTNER } from "./fixtures";
+
+describe("findNetworkByName", () => {
+  it.each([
+    ["gnosis", 100],
+    ["Gnosis", 100],
+    ["xdai", 100],
+    ["GNOSIS-CHAIN", 100],
+    ["ethereum", 1],
+    ["mainnet", 1],
+    [" eth ", 1],
+    ["local", 31337],
+    ["anvil", 31337],
+  ])("resolves %p to %p", (name, id) => {
+    expect(findNetworkByName(name)?.id).toBe(id);
+  });
+
+  it.each(["polygon", "100", ""])("does not know %p", (name) => {
+    expect(findNetworkByName(name)).toBeNull();
+  });
+
+  it("keeps names and aliases unique across the registry", () => {
+    const names = Object.values(NETWORKS).flatMap((network) => [
+      network.name.toLowerCase(),
+      ...network.aliases,
+    ]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe("getNetworkName", () => {
+  it("names known networks and falls back to the id", () => {
+    expect(getNetworkName(100)).toBe("Gnosis");
+    expect(getNetworkName(137)).toBe("Network 137");
+  });
+});
+
+describe("explorer links", () => {
+  it("point at the network's explorer, or nowhere without one", () => {
+    expect(getAddressUrl(100, PARTNER)).toBe(
+      `https://gnosisscan.io/address/${PARTNER}`,
+    );
+    expect(getTransactionUrl(1, "0xabc")).toBe("https://etherscan.io/tx/0xabc");
+    expect(getAddressUrl(31337, PARTNER)).toBeNull();
+    expect(getTransactionUrl(137, "0xabc")).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from "bun:test";
+import {
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import { ClaimedNonceCache } from "../src/helpers/nonce-cache";
+import { PARTNER, USER } from "./fixtures";
+
+describe("ClaimedNonceCache", () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "nonce-cache-"));
+    filePath = path.join(directory, "cache.json");
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  it("keys nonces by network and partner and reads them back after saving", async () => {
+    const cache = new ClaimedNonceCache(filePath);
+    cache.recordClaimed(100, PARTNER, "256");
+    cache.recordClaimed(1, PARTNER, "7");
+    await cache.save(async (network) => (network === 100 ? 40 : 20));
+
+    const reloaded = new ClaimedNonceCache(filePath);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.isClaimed(100, PARTNER.toLowerCase(), "0256")).toBe(true);
+    expect(reloaded.isClaimed(1, PARTNER, "256")).toBe(false);
+    expect(reloaded.isClaimed(100, USER, "256")).toBe(false);
+    expect(reloaded.hits).toBe(1);
+    expect(JSON.parse(readFileSync(filePath, "utf8")).claimed).toEqual({
+      [`100:${PARTNER.toLowerCase()}:256`]: { blockNumber: 40 },
+      [`1:${PARTNER.toLowerCase()}:7`]: { blockNumber: 20 },
+    });
+  });
+
+  it("only writes nonces that were not cached yet", async () => {
+    const cache = new ClaimedNonceCache(filePath);
+    cache.recordClaimed(100, PARTNER, "1");
+    await cache.save(async () => 10);
+
+    const reloaded = new ClaimedNonceCache(filePath);
+    reloaded.recordClaimed(100, PARTNER, "1");
+    reloaded.recordClaimed(100, PARTNER, "2");
+    expect(reloaded.pendingCount).toBe(1);
+  });
+
+  it("replaces the file in one step and keeps it when saving fails", async () => {
+    const cache = new ClaimedNonceCache(filePath);
+    cache.recordClaimed(100, PARTNER, "1");
+    await cache.save(async () => 10);
+    const saved = readFileSync(filePath, "utf8");
+
+    cache.recordClaimed(100, PARTNER, "2");
+    await expect(
+      cache.save(() => Promise.reject(new Error("rpc down"))),
+    ).rejects.toThrow("rpc down");
+
+    expect(readFileSync(filePath, "utf8")).toBe(saved);
+    expect(readdirSync(directory)).toEqual(["cache.json"]);
+    expect(cache.pendingCount).toBe(1);
+  });
+
+  it("starts empty without a file", () => {
+    const cache = new ClaimedNonceCache(filePath);
+    expect(cache.size).toBe(0);
+    expect(cache.isClaimed(100, PARTNER, "1")).toBe(false);
+  });
+
+  it.each([
+    ["malformed JSON", "{ not json"],
+    ["another version", JSON.stringify({ version: 99, claimed: {} })],
+  ])("ignores a cache file with %s", (_, contents) => {
+    writeFileSync(filePath, contents);
+    const warn = spyOn(console, "warn").mockImplementation(() => {});
+
+    try {
+      expect(new ClaimedNonceCache(filePath).size).toBe(0);
+      expect(warn).toHaveBeenCalledTimes(1);
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
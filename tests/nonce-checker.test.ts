@@ -0,0 +1,89 @@
+import { describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { BigNumber, Contract } from "ethers";
+import permit2Abi from "../src/abi/permit2.json";
+import { NonceBitmapChecker } from "../src/helpers/nonce-checker";
+import { ChainClient, Permit2Wrapper } from "../src/helpers/web3";
+import { ContractAbi } from "../src/types/permit2";
+import { deployPermit2, LocalChain } from "./local-chain";
+
+const NETWORK = 31337;
+const PARTNER = "0x9051eDa96dB419c967189F4Ac303a290F3327680";
+const OTHER_PARTNER = "0x054Ec26398549588F3c958719bD17CC1e6E97c3C";
+
+describe("NonceBitmapChecker", () => {
+  it("reads each bitmap word once and resolves every bit from it", async () => {
+    const chain = new LocalChain();
+    const permit2 = deployPermit2(chain, PERMIT2_ADDRESS, permit2Abi);
+    permit2.useNonce(PARTNER, "1");
+    permit2.useNonce(PARTNER, "256");
+
+    const client = new ChainClient(() => chain.provider);
+    const checker = new NonceBitmapChecker((network) =>
+      client.getPermit2(PERMIT2_ADDRESS, permit2Abi as ContractAbi, network),
+    );
+
+    const results = await Promise.all([
+      checker.isNonceClaimed(NETWORK, PARTNER, "0"),
+      checker.isNonceClaimed(NETWORK, PARTNER, "1"),
+      checker.isNonceClaimed(NETWORK, PARTNER.toLowerCase(), "255"),
+      checker.isNonceClaimed(NETWORK, PARTNER, "256"),
+      checker.isNonceClaimed(NETWORK, OTHER_PARTNER, "1"),
+    ]);
+
+    expect(results).toEqual([false, true, false, true, false]);
+    expect(checker.lookupCount).toBe(5);
+    expect(checker.wordCount).toBe(3);
+    expect(chain.countExecutions("nonceBitmap")).toBe(3);
+  });
+
+  it("resolves nonces far beyond 2^53 to their own word", async () => {
+    const chain = new LocalChain({ multicall: false });
+    const permit2 = deployPermit2(chain, PERMIT2_ADDRESS, permit2Abi);
+    const nonce = BigNumber.from(2).pow(200).add(7).toString();
+    permit2.useNonce(PARTNER, nonce);
+
+    const checker = new NonceBitmapChecker(
+      () =>
+        new Permit2Wrapper(
+          new Contract(PERMIT2_ADDRESS, permit2Abi, chain.provider),
+        ),
+    );
+
+    expect(await checker.isNonceClaimed(NETWORK, PARTNER, nonce)).toBe(true);
+    expect(
+      await checker.isNonceClaimed(
+        NETWORK,
+        PARTNER,
+        BigNumber.from(nonce).add(1).toString(),
+      ),
+    ).toBe(false);
+    expect(chain.countExecutions("nonceBitmap", { direct: true })).toBe(1);
+  });
+
+  it("does not keep a failed word read", async () => {
+    const chain = new LocalChain({ multicall: false });
+    let reads = 0;
+    chain.deploy(PERMIT2_ADDRESS, permit2Abi, {
+      nonceBitmap: () => {
+        if (reads++ === 0) {
+          throw new Error("unavailable");
+        }
+        return BigNumber.from(1);
+      },
+    });
+
+    const checker = new NonceBitmapChecker(
+      () =>
+        new Permit2Wrapper(
+          new Contract(PERMIT2_ADDRESS, permit2Abi, chain.provider),
+        ),
+    );
+
+    await expect(
+      checker.isNonceClaimed(NETWORK, PARTNER, "0"),
+    ).rejects.toThrow();
+    expect(await checker.isNonceClaimed(NETWORK, PARTNER, "0")).toBe(true);
+    expect(chain.countExecutions("nonceBitmap")).toBe(2);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { Contract } from "ethers";
+import permit2Abi from "../src/abi/permit2.json";
+import { checkReceipt } from "../src/helpers/reconcile";
+import {
+  makePermit,
+  PARTNER,
+  permit2ClaimData,
+  transferLog,
+  USER,
+  UUSD,
+} from "./fixtures";
+import { LocalChain } from "./local-chain";
+
+const permit = makePermit({ nonce: "7", network: 31337 });
+
+function check(chain: LocalChain, hash: string) {
+  return checkReceipt(
+    permit,
+    hash,
+    chain.provider,
+    new Contract(PERMIT2_ADDRESS, permit2Abi, chain.provider),
+  );
+}
+
+describe("checkReceipt", () => {
+  it("accepts a Permit2 claim that paid the beneficiary", async () => {
+    const chain = new LocalChain();
+    const hash = chain.mine({
+      from: USER,
+      to: PERMIT2_ADDRESS,
+      data: permit2ClaimData("7"),
+      logs: [transferLog()],
+    });
+
+    expect(await check(chain, hash)).toBeNull();
+  });
+
+  it.each([
+    [
+      "a plain token transfer",
+      { from: PARTNER, to: UUSD, logs: [transferLog()] },
+      "transaction is not a Permit2 claim of nonce 7",
+    ],
+    [
+      "a claim of another nonce",
+      {
+        from: USER,
+        to: PERMIT2_ADDRESS,
+        data: permit2ClaimData("8"),
+        logs: [transferLog()],
+      },
+      "transaction is not a Permit2 claim of nonce 7",
+    ],
+    [
+      "a reverted claim",
+      {
+        from: USER,
+        to: PERMIT2_ADDRESS,
+        data: permit2ClaimData("7"),
+        reverted: true,
+      },
+      "transaction reverted",
+    ],
+    [
+      "a claim paying another amount",
+      {
+        from: USER,
+        to: PERMIT2_ADDRESS,
+        data: permit2ClaimData("7"),
+        logs: [transferLog("5")],
+      },
+      "transferred amount 5 differs from permit amount 1000000000000000000",
+    ],
+  ])("rejects %s", async (_, transaction, reason) => {
+    const chain = new LocalChain();
+    expect(await check(chain, chain.mine(transaction))).toBe(reason);
+  });
+
+  it("rejects a transaction the chain does not know", async () => {
+    expect(await check(new LocalChain(), `0x${"ab".repeat(32)}`)).toBe(
+      "transaction not found on Local",
+    );
+  });
+});
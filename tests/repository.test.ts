@@ -0,0 +1,138 @@
+import { describe, expect, it } from "bun:test";
+import { CliError } from "../src/helpers/cli";
+import {
+  calculateRepositoryTotals,
+  getRepositoryName,
+  resolveOrganizationIds,
+  resolveRepositoryIds,
+} from "../src/helpers/repository";
+import { makePermit, stubGitHub, UUSD } from "./fixtures";
+
+const OTHER_TOKEN = "0x1111111111111111111111111111111111111111";
+const UUSD_KEY = `100:${UUSD.toLowerCase()}`;
+const OTHER_TOKEN_KEY = `100:${OTHER_TOKEN}`;
+
+describe("getRepositoryName", () => {
+  it.each([
+    [
+      "https://github.com/ubiquity/work.ubq.fi/issues/1",
+      "ubiquity/work.ubq.fi",
+    ],
+    [
+      "https://github.com/ubiquity/pay.ubq.fi/pull/2#comment",
+      "ubiquity/pay.ubq.fi",
+    ],
+    ["https://github.com/ubiquity", null],
+    ["https://gitlab.com/ubiquity/work.ubq.fi/issues/1", null],
+    [null, null],
+  ])("reads %p as %p", (nodeUrl, repository) => {
+    expect(getRepositoryName(nodeUrl)).toBe(repository);
+  });
+});
+
+describe("calculateRepositoryTotals", () => {
+  it("sums claimable permits per repository, unknown repositories last", () => {
+    const permits = [
+      makePermit({ id: 1, amount: "5", repository: "ubiquity/work.ubq.fi" }),
+      makePermit({ id: 2, amount: "1", repository: null }),
+      makePermit({ id: 3, amount: "2", repository: "ubiquity/pay.ubq.fi" }),
+      makePermit({
+        id: 4,
+        amount: "3",
+        repository: "ubiquity/work.ubq.fi",
+        tokenAddress: OTHER_TOKEN,
+      }),
+      makePermit({ id: 5, amount: "4", repository: "acme/app" }),
+      makePermit({
+        id: 6,
+        amount: "1000",
+        repository: "acme/app",
+        status: "expired",
+      }),
+    ];
+
+    const totals = calculateRepositoryTotals(permits);
+
+    expect(
+      totals.map((total) => ({
+        organization: total.organization,
+        repository: total.repository,
+        permitCount: total.permitCount,
+        tokenTotals: Object.fromEntries(
+          Object.entries(total.tokenTotals).map(([token, amount]) => [
+            token,
+            amount.toString(),
+          ]),
+        ),
+      })),
+    ).toEqual([
+      {
+        organization: "acme",
+        repository: "acme/app",
+        permitCount: 1,
+        tokenTotals: { [UUSD_KEY]: "4" },
+      },
+      {
+        organization: "ubiquity",
+        repository: "ubiquity/pay.ubq.fi",
+        permitCount: 1,
+        tokenTotals: { [UUSD_KEY]: "2" },
+      },
+      {
+        organization: "ubiquity",
+        repository: "ubiquity/work.ubq.fi",
+        permitCount: 2,
+        tokenTotals: { [UUSD_KEY]: "5", [OTHER_TOKEN_KEY]: "3" },
+      },
+      {
+        organization: null,
+        repository: null,
+        permitCount: 1,
+        tokenTotals: { [UUSD_KEY]: "1" },
+      },
+    ]);
+  });
+});
+
+describe("resolveRepositoryIds", () => {
+  it("keeps ids and looks `owner/name` up on GitHub", async () => {
+    const github = stubGitHub((apiPath) =>
+      apiPath === "/repos/ubiquity/work.ubq.fi"
+        ? Response.json({ id: 42, full_name: "ubiquity/work.ubq.fi" })
+        : new Response("{}", { status: 404 }),
+    );
+
+    try {
+      expect(
+        await resolveRepositoryIds(["123", "ubiquity/work.ubq.fi"]),
+      ).toEqual([123, 42]);
+      expect(github.lookups).toBe(1);
+      await expect(resolveRepositoryIds(["ubiquity/gone"])).rejects.toThrow(
+        new CliError("GitHub repository not found: ubiquity/gone"),
+      );
+    } finally {
+      github.restore();
+    }
+  });
+});
+
+describe("resolveOrganizationIds", () => {
+  it("keeps ids and looks logins up on GitHub", async () => {
+    const github = stubGitHub((apiPath) =>
+      apiPath === "/users/ubiquity"
+        ? Response.json({ id: 76412717, login: "ubiquity" })
+        : new Response("{}", { status: 404 }),
+    );
+
+    try {
+      expect(await resolveOrganizationIds(["7", "ubiquity"])).toEqual([
+        7, 76412717,
+      ]);
+      await expect(resolveOrganizationIds(["nobody"])).rejects.toThrow(
+        "GitHub organization not found: nobody",
+      );
+    } finally {
+      github.restore();
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "bun:test";
+import { ResponseCache } from "../src/helpers/response-cache";
+
+function counter() {
+  let calls = 0;
+  return {
+    load: () => Promise.resolve(++calls),
+    get calls() {
+      return calls;
+    },
+  };
+}
+
+describe("ResponseCache", () => {
+  it("computes a key once per TTL", async () => {
+    const cache = new ResponseCache(60_000);
+    const { load } = counter();
+
+    expect(await cache.get("summary", load)).toBe(1);
+    expect(await cache.get("summary", load)).toBe(1);
+  });
+
+  it("does not keep failures", async () => {
+    const cache = new ResponseCache(60_000);
+    await expect(
+      cache.get("summary", () => Promise.reject(new Error("down"))),
+    ).rejects.toThrow("down");
+
+    expect(await cache.get("summary", () => Promise.resolve("up"))).toBe("up");
+  });
+
+  it("sweeps expired entries when computing another", async () => {
+    const cache = new ResponseCache(0);
+    const { load } = counter();
+    for (const key of ["a", "b", "c"]) {
+      await cache.get(key, load);
+    }
+
+    expect(cache.size).toBe(1);
+  });
+
+  it("drops the oldest entries beyond the cap", async () => {
+    const cache = new ResponseCache(60_000, 2);
+    const loads = counter();
+    for (const key of ["a", "b", "c"]) {
+      await cache.get(key, loads.load);
+    }
+
+    expect(cache.size).toBe(2);
+    await cache.get("c", loads.load);
+    expect(loads.calls).toBe(3);
+    await cache.get("a", loads.load);
+    expect(loads.calls).toBe(4);
+  });
+});
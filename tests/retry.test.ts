@@ -0,0 +1,89 @@
+import { describe, expect, it, spyOn } from "bun:test";
+import {
+  HttpError,
+  isRetryableError,
+  PermanentError,
+  withRetry,
+} from "../src/helpers/retry";
+
+describe("withRetry", () => {
+  it("doubles the delay ceiling per attempt up to maxDelayMs and stops at the attempt limit", async () => {
+    // Full jitter at its top: every delay equals its ceiling
+    const random = spyOn(Math, "random").mockReturnValue(1);
+    const delays: number[] = [];
+    let calls = 0;
+
+    try {
+      await expect(
+        withRetry(
+          async () => {
+            calls++;
+            throw new HttpError("unavailable", 503);
+          },
+          {
+            attempts: 5,
+            baseDelayMs: 1,
+            maxDelayMs: 4,
+            onRetry: (_, __, delayMs) => delays.push(delayMs),
+          },
+        ),
+      ).rejects.toThrow("unavailable");
+    } finally {
+      random.mockRestore();
+    }
+
+    expect(calls).toBe(5);
+    expect(delays).toEqual([1, 2, 4, 4]);
+  });
+
+  it("returns the first successful result with its attempt number", async () => {
+    const result = await withRetry(
+      async (attempt) => {
+        if (attempt < 3) {
+          throw new HttpError("busy", 429);
+        }
+        return `attempt ${attempt}`;
+      },
+      { baseDelayMs: 0 },
+    );
+
+    expect(result).toBe("attempt 3");
+  });
+
+  it.each([
+    ["a 4xx response", new HttpError("not found", 404)],
+    ["a permanent error", new PermanentError("invalid nonce")],
+  ])("gives up straight away on %s", async (_, error) => {
+    let calls = 0;
+
+    await expect(
+      withRetry(
+        async () => {
+          calls++;
+          throw error;
+        },
+        { attempts: 5, baseDelayMs: 0 },
+      ),
+    ).rejects.toBe(error);
+    expect(calls).toBe(1);
+  });
+});
+
+describe("isRetryableError", () => {
+  it.each([
+    [new HttpError("too many requests", 429), true],
+    [new HttpError("request timeout", 408), true],
+    [new HttpError("bad gateway", 502), true],
+    [new HttpError("unavailable", 503), true],
+    [new HttpError("bad request", 400), false],
+    [new HttpError("unauthorized", 401), false],
+    [new HttpError("not found", 404), false],
+    [new PermanentError("malformed"), false],
+    [{ code: "CALL_EXCEPTION" }, false],
+    [{ error: { message: "execution reverted" } }, false],
+    [{ code: "TIMEOUT" }, true],
+    [new Error("socket hang up"), true],
+  ])("classifies %p as %p", (error, expected) => {
+    expect(isRetryableError(error)).toBe(expected);
+  });
+});
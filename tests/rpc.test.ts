@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { tmpdir } from "os";
+import * as path from "path";
+import { getRpcRateLimit, getRpcUrls } from "../src/helpers/config";
+import { FallbackRpcProvider } from "../src/helpers/rpc";
+import { ChainClient } from "../src/helpers/web3";
+import { PARTNER, UUSD } from "./fixtures";
+import { deployToken, LocalChain } from "./local-chain";
+
+const NETWORK = 31337;
+const RATE_LIMIT = { concurrency: 4, requestsPerSecond: 1000 };
+
+/**
+ * A JSON-RPC endpoint over HTTP that answers through `chain`, or fails every
+ * request with a 503 when no chain is given. Counts the requests it receives.
+ */
+class RpcEndpoint {
+  requests = 0;
+  private _server: Server;
+
+  constructor(chain?: LocalChain) {
+    this._server = createServer((request, response) => {
+      let body = "";
+      request.on("data", (chunk) => (body += chunk));
+      request.on("end", async () => {
+        this.requests++;
+        if (!chain) {
+          response.writeHead(503).end("unavailable");
+          return;
+        }
+        const { id, method, params } = JSON.parse(body);
+        let payload: object;
+        try {
+          payload = { result: await chain.provider.send(method, params) };
+        } catch (error) {
+          payload = { error: (error as { error: object }).error };
+        }
+        response.writeHead(200, { "Content-Type": "application/json" });
+        response.end(JSON.stringify({ jsonrpc: "2.0", id, ...payload }));
+      });
+    });
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${(this._server.address() as AddressInfo).port}`;
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve) =>
+      this._server.listen(0, "127.0.0.1", resolve),
+    );
+  }
+
+  stop(): Promise<void> {
+    return new Promise((resolve) => this._server.close(() => resolve()));
+  }
+}
+
+describe("FallbackRpcProvider", () => {
+  let chain: LocalChain;
+  let down: RpcEndpoint;
+  let up: RpcEndpoint;
+
+  beforeEach(async () => {
+    chain = new LocalChain();
+    chain.mineEmpty(7);
+    down = new RpcEndpoint();
+    up = new RpcEndpoint(chain);
+    await Promise.all([down.start(), up.start()]);
+  });
+
+  afterEach(() => Promise.all([down.stop(), up.stop()]));
+
+  it("moves to the next endpoint when one fails and stays there", async () => {
+    const provider = new FallbackRpcProvider(
+      [down.url, up.url],
+      NETWORK,
+      RATE_LIMIT,
+      { attempts: 1 },
+    );
+
+    const hash = chain.mine({ from: PARTNER, to: UUSD });
+
+    for (let i = 0; i < 2; i++) {
+      expect(
+        await provider.send("eth_getTransactionByHash", [hash]),
+      ).toMatchObject({ hash, blockNumber: "0x8" });
+    }
+    expect(down.requests).toBe(1);
+    expect(up.requests).toBe(2);
+  });
+
+  it("retries the whole list with backoff and fails when every endpoint does", async () => {
+    const other = new RpcEndpoint();
+    await other.start();
+    const provider = new FallbackRpcProvider(
+      [down.url, other.url],
+      NETWORK,
+      RATE_LIMIT,
+      { attempts: 2, baseDelayMs: 0 },
+    );
+
+    try {
+      await expect(provider.send("eth_blockNumber", [])).rejects.toThrow();
+      expect(down.requests).toBe(2);
+      expect(other.requests).toBe(2);
+    } finally {
+      await other.stop();
+    }
+  });
+
+  it("does not fall back on a contract revert", async () => {
+    chain.deploy(UUSD, ["function symbol() view returns (string)"], {
+      symbol: () => {
+        throw new Error("no symbol");
+      },
+    });
+    const provider = new FallbackRpcProvider(
+      [up.url, down.url],
+      NETWORK,
+      RATE_LIMIT,
+      { attempts: 3, baseDelayMs: 0 },
+    );
+    const data = "0x95d89b41"; // symbol()
+
+    await expect(
+      provider.send("eth_call", [{ to: UUSD, data }, "latest"]),
+    ).rejects.toThrow();
+    expect(up.requests).toBe(1);
+    expect(down.requests).toBe(0);
+  });
+
+  it("rejects an empty endpoint list", () => {
+    expect(() => new FallbackRpcProvider([], NETWORK, RATE_LIMIT)).toThrow(
+      "No RPC endpoints configured for network 31337",
+    );
+  });
+});
+
+describe("getRpcUrls", () => {
+  const saved = { ...process.env };
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "rpc-config-"));
+    delete process.env.RPC_URLS_100;
+    delete process.env.RPC_CONFIG_FILE;
+  });
+
+  afterEach(() => {
+    process.env = { ...saved };
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  function writeConfig(config: object): string {
+    const filePath = path.join(directory, "rpc.json");
+    writeFileSync(filePath, JSON.stringify(config));
+    return filePath;
+  }
+
+  it("falls back to the network registry", () => {
+    expect(getRpcUrls(100)).toEqual(["https://rpc.ubq.fi/100"]);
+    expect(getRpcUrls(999)).toEqual([]);
+  });
+
+  it("keeps the order of RPC_CONFIG_FILE and lets RPC_URLS_<id> win", () => {
+    process.env.RPC_CONFIG_FILE = writeConfig({
+      100: ["https://b.example", "https://a.example"],
+      1: "https://mainnet.example",
+    });
+    expect(getRpcUrls(100)).toEqual(["https://b.example", "https://a.example"]);
+    expect(getRpcUrls(1)).toEqual(["https://mainnet.example"]);
+
+    process.env.RPC_URLS_100 = " https://z.example, ,https://y.example";
+    expect(getRpcUrls(100)).toEqual(["https://z.example", "https://y.example"]);
+  });
+
+  it("rejects a malformed config file", () => {
+    process.env.RPC_CONFIG_FILE = writeConfig({ 100: [1] });
+    expect(() => getRpcUrls(100)).toThrow("Invalid RPC urls for network 100");
+  });
+
+  it("points the local network at a node given through RPC_URLS_31337", async () => {
+    const chain = new LocalChain();
+    deployToken(chain, UUSD, { symbol: "UUSD", decimals: 18 });
+    const node = new RpcEndpoint(chain);
+    await node.start();
+    process.env.RPC_URLS_31337 = node.url;
+
+    try {
+      const provider = new FallbackRpcProvider(
+        getRpcUrls(NETWORK),
+        NETWORK,
+        getRpcRateLimit(NETWORK),
+      );
+      const client = new ChainClient(() => provider);
+      expect(await client.getTokenMetadata(UUSD, NETWORK)).toEqual({
+        symbol: "UUSD",
+        decimals: 18,
+      });
+      expect(node.requests).toBeGreaterThan(0);
+    } finally {
+      await node.stop();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { PERMIT2_ADDRESS } from "@uniswap/permit2-sdk";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import permit2Abi from "../src/abi/permit2.json";
+import { QuietLogger } from "../src/helpers/logger";
+import { PermitRow } from "../src/helpers/supabase";
+import { NoPriceSource } from "../src/helpers/valuation";
+import {
+  createPendingRewardsServer,
+  ServeOptions,
+  startServer,
+} from "../src/server";
+import { makePermitRow, PARTNER, stubGitHub, USER, UUSD } from "./fixtures";
+import { deployPermit2, deployToken, LocalChain } from "./local-chain";
+import { LocalPostgrest } from "./local-postgrest";
+
+const NETWORK = 31337;
+const OTHER_PARTNER = "0x1111111111111111111111111111111111111111";
+
+describe("createPendingRewardsServer", () => {
+  let postgrest: LocalPostgrest;
+  let server: Server;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await postgrest.stop();
+  });
+
+  async function start(
+    permits: PermitRow[] = [],
+    options: Partial<ServeOptions> = {},
+  ): Promise<string> {
+    postgrest = new LocalPostgrest({ permits });
+    server = createPendingRewardsServer({
+      supabase: await postgrest.start(),
+      logger: new QuietLogger(),
+      partnerWallets: [],
+      userPartnerWallets: [],
+      networks: [],
+      priceSource: new NoPriceSource(),
+      nonceCache: null,
+      ttlMs: 60_000,
+      ...options,
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve),
+    );
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  it("answers a malformed path with 400", async () => {
+    const baseUrl = await start();
+
+    const response = await fetch(`${baseUrl}/users/%E0%A4%A/pending`);
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: "Malformed path: /users/%E0%A4%A/pending",
+    });
+  });
+
+  it("serves a cached summary until the TTL passes", async () => {
+    const baseUrl = await start();
+
+    const first = await fetch(`${baseUrl}/summary`);
+    const fetches = postgrest.requestsTo("GET", "permits").length;
+    const second = await fetch(`${baseUrl}/summary`);
+
+    expect(first.status).toBe(200);
+    expect(await second.json()).toEqual(await first.json());
+    expect(fetches).toBeGreaterThan(0);
+    expect(postgrest.requestsTo("GET", "permits")).toHaveLength(fetches);
+  });
+
+  it("lists user permits from partners outside the allowlist", async () => {
+    const chain = new LocalChain();
+    deployPermit2(chain, PERMIT2_ADDRESS, permit2Abi);
+    deployToken(chain, UUSD, { symbol: "UUSD", decimals: 18 });
+    const tokens = { address: UUSD, network: NETWORK };
+    const github = stubGitHub(() => Response.json({ login: "user", id: 1 }));
+
+    let response: Response;
+    try {
+      const baseUrl = await start(
+        [
+          makePermitRow({ id: 1, tokens }),
+          makePermitRow({
+            id: 2,
+            nonce: "2",
+            tokens,
+            partners: { wallets: { address: OTHER_PARTNER } },
+          }),
+        ],
+        {
+          partnerWallets: [PARTNER],
+          getProvider: () => chain.provider,
+        },
+      );
+      response = await fetch(`${baseUrl}/users/${USER}/pending`);
+    } finally {
+      github.restore();
+    }
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(
+      body.permits.map((permit: { partnerAddress: string }) =>
+        permit.partnerAddress.toLowerCase(),
+      ),
+    ).toEqual([PARTNER.toLowerCase(), OTHER_PARTNER]);
+  });
+
+  it("caches a login GitHub does not know", async () => {
+    const github = stubGitHub(() => new Response("{}", { status: 404 }));
+
+    try {
+      const baseUrl = await start();
+      for (let i = 0; i < 2; i++) {
+        const response = await fetch(`${baseUrl}/users/no-such-user/pending`);
+        expect(response.status).toBe(404);
+        expect(await response.json()).toEqual({
+          error: "GitHub user not found: no-such-user",
+        });
+      }
+      expect(github.lookups).toBe(1);
+    } finally {
+      github.restore();
+    }
+  });
+});
+
+describe("startServer", () => {
+  it("rejects when the port is in use", async () => {
+    const taken = createServer();
+    await startServer(taken, 0);
+    const { port } = taken.address() as AddressInfo;
+    const server = createServer();
+
+    try {
+      await expect(startServer(server, port)).rejects.toMatchObject({
+        code: "EADDRINUSE",
+      });
+      expect(server.listenerCount("error")).toBe(0);
+    } finally {
+      await new Promise((resolve) => taken.close(resolve));
+    }
+  });
+});
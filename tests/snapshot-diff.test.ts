@@ -0,0 +1,87 @@
+import { describe, expect, it } from "bun:test";
+import { Snapshot, SnapshotPermit } from "../src/helpers/snapshot";
+import {
+  diffSnapshots,
+  formatSnapshotDiff,
+} from "../src/helpers/snapshot-diff";
+import { makePermit } from "./fixtures";
+
+function snapshot(
+  generatedAt: string,
+  permits: Partial<SnapshotPermit>[],
+): Snapshot {
+  return {
+    version: 1,
+    generatedAt,
+    filters: {},
+    permits: permits.map((permit) => makePermit(permit)),
+  };
+}
+
+describe("diffSnapshots", () => {
+  const previous = snapshot("2025-06-01T00:00:00.000Z", [
+    { id: 1, amount: "100", status: "claimable" },
+    { id: 2, amount: "40", status: "claimable" },
+    { id: 3, amount: "10", status: "claimable" },
+  ]);
+  const current = snapshot("2025-06-08T00:00:00.000Z", [
+    { id: 1, amount: "100", status: "claimed" },
+    { id: 2, amount: "40", status: "claimable" },
+    { id: 3, amount: "10", status: "expired" },
+    {
+      id: 4,
+      amount: "25",
+      status: "claimable",
+      created: "2025-06-05T00:00:00Z",
+    },
+    // Failed its check in the previous run, so it was missing from it
+    { id: 5, amount: "5", status: "claimable" },
+  ]);
+
+  it("lists new, claimed and newly expired permits", () => {
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.newPermits.map((permit) => permit.id)).toEqual([4]);
+    expect(diff.claimedPermits.map((permit) => permit.id)).toEqual([1]);
+    expect(diff.expiredPermits.map((permit) => permit.id)).toEqual([3]);
+    expect(diff.filtersDiffer).toBe(false);
+  });
+
+  it("counts nonces used without an event scan as claimed, once", () => {
+    const unverified = snapshot("2025-06-08T00:00:00.000Z", [
+      { id: 1, amount: "100", status: "used" },
+    ]);
+    const scanned = snapshot("2025-06-09T00:00:00.000Z", [
+      { id: 1, amount: "100", status: "claimed" },
+    ]);
+
+    expect(diffSnapshots(previous, unverified).claimedPermits).toHaveLength(1);
+    expect(diffSnapshots(unverified, scanned).claimedPermits).toEqual([]);
+  });
+
+  it("does not count permits missing from the previous run as new", () => {
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.newPermits.map((permit) => permit.id)).not.toContain(5);
+  });
+
+  it("nets the change in what each wallet owes", () => {
+    const diff = diffSnapshots(previous, current);
+
+    expect(diff.partnerDeltas).toHaveLength(1);
+    const [delta] = diff.partnerDeltas;
+    expect(delta.previous.toString()).toBe("150");
+    expect(delta.current.toString()).toBe("70");
+    expect(delta.change.toString()).toBe("-80");
+    expect(diff.userDeltas[0].userName).toBe("alice");
+  });
+
+  it("flags snapshots taken under different filters", () => {
+    const filtered = { ...current, filters: { networks: [100] } };
+
+    const diff = diffSnapshots(previous, filtered);
+
+    expect(diff.filtersDiffer).toBe(true);
+    expect(formatSnapshotDiff(diff)).toContain("different filters");
+  });
+});
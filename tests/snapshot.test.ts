@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import {
+  haveSameFilters,
+  listSnapshots,
+  pickSnapshotPair,
+  saveSnapshot,
+  Snapshot,
+  SnapshotWindow,
+} from "../src/helpers/snapshot";
+import { PermitFilters } from "../src/helpers/supabase";
+
+describe("pickSnapshotPair", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "snapshots-"));
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  function save(day: number, filters: PermitFilters): string {
+    return saveSnapshot(directory, {
+      version: 1,
+      generatedAt: `2025-06-0${day}T00:00:00.000Z`,
+      filters,
+      permits: [],
+    });
+  }
+
+  it("pairs the latest two snapshots taken with the same filters", () => {
+    const first = save(1, {});
+    const second = save(2, {});
+    save(3, { networks: [100] });
+
+    expect(pickSnapshotPair([], listSnapshots(directory))).toEqual([
+      first,
+      second,
+    ]);
+  });
+
+  it("compares a given file against the latest snapshot with its filters", () => {
+    const filtered = save(1, { networks: [100] });
+    save(2, {});
+    const latestFiltered = save(3, { networks: [100] });
+    save(4, {});
+
+    expect(pickSnapshotPair([filtered], listSnapshots(directory))).toEqual([
+      filtered,
+      latestFiltered,
+    ]);
+  });
+
+  it("finds nothing when no filters match", () => {
+    const filtered = save(1, { networks: [100] });
+    save(2, {});
+
+    expect(pickSnapshotPair([], listSnapshots(directory))).toBeNull();
+    expect(pickSnapshotPair([filtered], listSnapshots(directory))).toBeNull();
+  });
+});
+
+describe("haveSameFilters", () => {
+  function snapshot(
+    generatedAt: string,
+    filters: PermitFilters,
+    window?: SnapshotWindow,
+  ): Snapshot {
+    return { version: 1, generatedAt, filters, window, permits: [] };
+  }
+
+  it("matches runs a day apart with the same relative --since", () => {
+    const monday = snapshot(
+      "2025-06-02T08:00:00.000Z",
+      { networks: [100], createdFrom: "2025-05-03T08:00:00.000Z" },
+      { since: "30d" },
+    );
+    const tuesday = snapshot(
+      "2025-06-03T08:00:00.000Z",
+      { networks: [100], createdFrom: "2025-05-04T08:00:00.000Z" },
+      { since: "30d" },
+    );
+
+    expect(haveSameFilters(monday, tuesday)).toBe(true);
+  });
+
+  it("tells different windows and other filters apart", () => {
+    const base = snapshot(
+      "2025-06-02T08:00:00.000Z",
+      { createdFrom: "2025-05-03T08:00:00.000Z" },
+      { since: "30d" },
+    );
+
+    expect(
+      haveSameFilters(
+        base,
+        snapshot(
+          base.generatedAt,
+          { createdFrom: "2025-05-19T08:00:00.000Z" },
+          { since: "2w" },
+        ),
+      ),
+    ).toBe(false);
+    expect(
+      haveSameFilters(
+        base,
+        snapshot(
+          base.generatedAt,
+          { ...base.filters, networks: [1] },
+          {
+            since: "30d",
+          },
+        ),
+      ),
+    ).toBe(false);
+  });
+
+  it("compares the resolved bounds of snapshots that recorded no window", () => {
+    const fixed = { createdFrom: "2025-01-01T00:00:00.000Z" };
+
+    expect(
+      haveSameFilters(
+        snapshot("2025-06-02T00:00:00.000Z", fixed),
+        snapshot("2025-06-03T00:00:00.000Z", fixed),
+      ),
+    ).toBe(true);
+    expect(
+      haveSameFilters(
+        snapshot("2025-06-02T00:00:00.000Z", fixed),
+        snapshot("2025-06-03T00:00:00.000Z", fixed, { since: "2025-01-01" }),
+      ),
+    ).toBe(false);
+  });
+});
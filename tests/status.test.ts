@@ -0,0 +1,39 @@
+import { describe, expect, it } from "bun:test";
+import { classifyPermit, formatDeadline } from "../src/helpers/status";
+
+const NOW = 1_750_000_000;
+
+describe("classifyPermit", () => {
+  it("leaves a used nonce unverified until the event scan explains it", () => {
+    expect(classifyPermit(true, "0", NOW)).toBe("used");
+    expect(classifyPermit(true, "0", NOW, "transfer")).toBe("claimed");
+    expect(classifyPermit(true, "0", NOW, "invalidation")).toBe("invalidated");
+  });
+
+  it("expires unused permits past their deadline", () => {
+    expect(classifyPermit(false, String(NOW - 1), NOW)).toBe("expired");
+    expect(classifyPermit(false, "2024-01-01T00:00:00Z", NOW)).toBe("expired");
+  });
+
+  it("keeps unused permits claimable until the deadline", () => {
+    expect(classifyPermit(false, String(NOW), NOW)).toBe("claimable");
+    expect(
+      classifyPermit(
+        false,
+        "115792089237316195423570985008687907853269984665640564039457584007913129639935",
+        NOW,
+      ),
+    ).toBe("claimable");
+  });
+
+  it("keeps permits with an unreadable deadline claimable", () => {
+    expect(classifyPermit(false, "soon", NOW)).toBe("claimable");
+  });
+});
+
+describe("formatDeadline", () => {
+  it("renders unix seconds as a date and uint256 max as never", () => {
+    expect(formatDeadline("1750000000")).toBe("2025-06-15");
+    expect(formatDeadline("2".repeat(70))).toBe("never");
+  });
+});
@@ -0,0 +1,192 @@
+import { afterEach, describe, expect, it } from "bun:test";
+import { getSkipReason } from "../src/helpers/data-quality";
+import { QuietLogger } from "../src/helpers/logger";
+import {
+  fetchAllPermits,
+  updatePermitTransactions,
+} from "../src/helpers/supabase";
+import { makePermitRow, PARTNER, UUSD } from "./fixtures";
+import { LocalPostgrest } from "./local-postgrest";
+
+const OTHER_PARTNER = "0x054Ec26398549588F3c958719bD17CC1e6E97c3C";
+const OTHER_TOKEN = "0x1111111111111111111111111111111111111111";
+
+/**
+ * A permit row as stored by the stand-in, with the foreign keys the
+ * partner queries filter on.
+ */
+function storedRow(id: number, partner: string | null | undefined) {
+  return {
+    ...makePermitRow({ id }),
+    partner_id: partner === null ? null : id,
+    partners:
+      partner === null
+        ? null
+        : {
+            wallet_id: partner === undefined ? null : id,
+            wallets: partner === undefined ? null : { address: partner },
+          },
+  };
+}
+
+describe("fetchAllPermits", () => {
+  let postgrest: LocalPostgrest;
+
+  afterEach(() => postgrest.stop());
+
+  it("matches partner and token addresses in both casings", async () => {
+    postgrest = new LocalPostgrest({ permits: [storedRow(1, PARTNER)] });
+    const supabase = await postgrest.start();
+
+    const { data, error } = await fetchAllPermits(supabase, new QuietLogger(), {
+      partnerWallets: [PARTNER.toLowerCase()],
+      tokenAddresses: [UUSD.toLowerCase()],
+    });
+
+    expect(error).toBeNull();
+    expect(data!.map((row) => row.id)).toEqual([1]);
+    const [request] = postgrest.requestsTo("GET", "permits");
+    expect(request.params.get("partners.wallets.address")).toBe(
+      `in.(${PARTNER},${PARTNER.toLowerCase()})`,
+    );
+    expect(request.params.get("tokens.address")).toBe(
+      `in.(${UUSD},${UUSD.toLowerCase()})`,
+    );
+  });
+
+  it("keeps only permits on the given networks and tokens", async () => {
+    postgrest = new LocalPostgrest({
+      permits: [
+        makePermitRow({ id: 1 }),
+        makePermitRow({ id: 2, tokens: { address: UUSD, network: 1 } }),
+        makePermitRow({
+          id: 3,
+          tokens: { address: OTHER_TOKEN, network: 100 },
+        }),
+        makePermitRow({ id: 4, tokens: null }),
+      ],
+    });
+    const supabase = await postgrest.start();
+
+    const byNetwork = await fetchAllPermits(supabase, new QuietLogger(), {
+      networks: [100],
+    });
+    const byToken = await fetchAllPermits(supabase, new QuietLogger(), {
+      tokenAddresses: [UUSD],
+    });
+
+    expect(byNetwork.data!.map((row) => row.id)).toEqual([1, 3]);
+    expect(byToken.data!.map((row) => row.id)).toEqual([1, 2]);
+  });
+
+  it("keeps permits without a partner wallet for the data quality check", async () => {
+    postgrest = new LocalPostgrest({
+      permits: [
+        storedRow(1, PARTNER),
+        storedRow(2, OTHER_PARTNER),
+        storedRow(3, null),
+        storedRow(4, undefined),
+      ],
+    });
+    const supabase = await postgrest.start();
+
+    const { data } = await fetchAllPermits(supabase, new QuietLogger(), {
+      partnerWallets: [PARTNER],
+    });
+
+    expect(data!.map((row) => row.id)).toEqual([1, 3, 4]);
+    expect(data!.map(getSkipReason)).toEqual([
+      null,
+      "missing partner wallet",
+      "missing partner wallet",
+    ]);
+  });
+
+  it("returns partners without a wallet from the main query when there is no allowlist", async () => {
+    postgrest = new LocalPostgrest({
+      permits: [storedRow(1, OTHER_PARTNER), storedRow(2, undefined)],
+    });
+    const supabase = await postgrest.start();
+
+    const { data } = await fetchAllPermits(supabase, new QuietLogger());
+
+    expect(data!.map((row) => row.id)).toEqual([1, 2]);
+    expect(postgrest.requestsTo("GET", "permits")).toHaveLength(2);
+  });
+
+  it("narrows permits to the organization and repository ids of their location", async () => {
+    const located = (
+      id: number,
+      organizationId: number,
+      repositoryId: number,
+    ) =>
+      makePermitRow({
+        id,
+        locations: {
+          organization_id: organizationId,
+          repository_id: repositoryId,
+          issue_id: id,
+          node_url: null,
+        },
+      });
+    postgrest = new LocalPostgrest({
+      permits: [
+        located(1, 10, 100),
+        located(2, 10, 101),
+        located(3, 20, 200),
+        makePermitRow({ id: 4 }),
+      ],
+    });
+    const supabase = await postgrest.start();
+
+    const byOrganization = await fetchAllPermits(supabase, new QuietLogger(), {
+      organizationIds: [10],
+    });
+    const byRepository = await fetchAllPermits(supabase, new QuietLogger(), {
+      repositoryIds: [101, 200],
+    });
+    const byBoth = await fetchAllPermits(supabase, new QuietLogger(), {
+      organizationIds: [10],
+      repositoryIds: [200],
+    });
+
+    expect(byOrganization.data!.map((row) => row.id)).toEqual([1, 2]);
+    expect(byRepository.data!.map((row) => row.id)).toEqual([2, 3]);
+    expect(byBoth.data).toEqual([]);
+  });
+});
+
+describe("updatePermitTransactions", () => {
+  let postgrest: LocalPostgrest;
+
+  afterEach(() => postgrest.stop());
+
+  it("writes each row only while its transaction is still null", async () => {
+    const recorded = `0x${"01".repeat(32)}`;
+    const found = `0x${"02".repeat(32)}`;
+    const rows = [
+      makePermitRow({ id: 1 }),
+      makePermitRow({ id: 2, transaction: recorded }),
+    ];
+    postgrest = new LocalPostgrest({ permits: rows });
+    const supabase = await postgrest.start();
+
+    const result = await updatePermitTransactions(supabase, new QuietLogger(), [
+      { permitId: 1, transaction: found },
+      { permitId: 2, transaction: found },
+    ]);
+
+    expect(result).toEqual({ updated: [1], unchanged: [2], failed: [] });
+    expect(rows.map((row) => row.transaction)).toEqual([found, recorded]);
+    const requests = postgrest.requestsTo("PATCH", "permits");
+    expect(requests.map((request) => request.params.get("id")).sort()).toEqual([
+      "eq.1",
+      "eq.2",
+    ]);
+    expect(
+      requests.every(
+        (request) => request.params.get("transaction") === "is.null",
+      ),
+    ).toBe(true);
+  });
+});
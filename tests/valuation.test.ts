@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { BigNumber } from "ethers";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import * as path from "path";
+import {
+  formatUsd,
+  StaticPriceFileSource,
+  TokenRef,
+  valueTokenTotals,
+} from "../src/helpers/valuation";
+import { UUSD } from "./fixtures";
+
+const UUSD_REF: TokenRef = { network: 100, address: UUSD, symbol: "UUSD" };
+
+describe("StaticPriceFileSource", () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(path.join(tmpdir(), "prices-"));
+  });
+
+  afterEach(() => rmSync(directory, { recursive: true, force: true }));
+
+  function writePrices(contents: string): string {
+    const filePath = path.join(directory, "prices.json");
+    writeFileSync(filePath, contents);
+    return filePath;
+  }
+
+  it("prefers an address key over the symbol and leaves other tokens unpriced", async () => {
+    const source = new StaticPriceFileSource(
+      writePrices(JSON.stringify({ [`100:${UUSD}`]: 0.99, UUSD: 1, WXDAI: 1 })),
+    );
+
+    expect(await source.getUsdPrice(UUSD_REF)).toBe(0.99);
+    expect(await source.getUsdPrice({ ...UUSD_REF, network: 1 })).toBe(1);
+    expect(
+      await source.getUsdPrice({ ...UUSD_REF, symbol: "OTHER", network: 1 }),
+    ).toBeNull();
+  });
+
+  it.each([
+    ["{ not json", "Failed to read price file"],
+    ["[1, 2]", "must contain a JSON object"],
+    ['{ "UUSD": "1" }', 'Invalid price for "UUSD"'],
+    ['{ "UUSD": -1 }', 'Invalid price for "UUSD"'],
+  ])("rejects %p", (contents, message) => {
+    const filePath = writePrices(contents);
+    expect(() => new StaticPriceFileSource(filePath)).toThrow(message);
+  });
+
+  it("rejects a missing file", () => {
+    expect(
+      () => new StaticPriceFileSource(path.join(directory, "missing.json")),
+    ).toThrow("Failed to read price file");
+  });
+});
+
+describe("valueTokenTotals", () => {
+  it("scales each token by its own decimals", () => {
+    const valuation = valueTokenTotals(
+      {
+        uusd: BigNumber.from("1500000000000000000"),
+        usdc: BigNumber.from("2500000"),
+      },
+      { uusd: 18, usdc: 6 },
+      { uusd: 2, usdc: 1 },
+    );
+
+    expect(valuation).toEqual({ usd: 5.5, unpricedTokens: [] });
+  });
+
+  it("lists unpriced tokens instead of valuing them at zero", () => {
+    const valuation = valueTokenTotals(
+      {
+        uusd: BigNumber.from("1000000000000000000"),
+        other: BigNumber.from("1"),
+        empty: BigNumber.from(0),
+      },
+      { uusd: 18, other: 18, empty: 18 },
+      { uusd: 1, other: null, empty: null },
+    );
+
+    expect(valuation).toEqual({ usd: 1, unpricedTokens: ["other"] });
+  });
+});
+
+describe("formatUsd", () => {
+  it("marks totals that leave tokens unpriced", () => {
+    expect(formatUsd({ usd: 1234.5, unpricedTokens: [] })).toBe("$1,234.50");
+    expect(formatUsd({ usd: 1, unpricedTokens: ["other"] })).toBe(
+      "$1.00 + unpriced",
+    );
+    expect(formatUsd({ usd: 0, unpricedTokens: ["other"] })).toBe("unpriced");
+    expect(formatUsd({ usd: 0, unpricedTokens: [] })).toBe("$0.00");
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "bun:test";
+import {
+  getTokenDecimalsByKey,
+  getTokenLabelsByKey,
+} from "../src/helpers/formatting";
+import { PendingRewardsReport } from "../src/types/report";
+import { csvWriter, escapeCsv } from "../src/writers/csv";
+import { jsonWriter, ndjsonWriter } from "../src/writers/json";
+import { makePermit, PARTNER, UUSD } from "./fixtures";
+
+function makeReport(): PendingRewardsReport {
+  const permits = [
+    makePermit({ id: 1, status: "claimed", isClaimed: true }),
+    makePermit({ id: 2, nonce: "007", repository: 'acme/"quoted", repo' }),
+  ];
+  return {
+    generatedAt: "2025-06-30T00:00:00.000Z",
+    permits,
+    failedChecks: [],
+    skippedPermits: [
+      {
+        id: 3,
+        nonce: "0x01",
+        amount: "1",
+        partnerAddress: PARTNER,
+        tokenAddress: UUSD,
+        network: 100,
+        userAddress: null,
+        reason: "unparseable nonce: 0x01",
+      },
+    ],
+    dataWarnings: [{ id: 2, nonce: "007", reason: "non-canonical nonce: 007" }],
+    priceSource: "none",
+    tokenLabels: getTokenLabelsByKey(permits),
+    tokenDecimals: getTokenDecimalsByKey(permits),
+    prices: {},
+  };
+}
+
+describe("csvWriter", () => {
+  const [header, ...rows] = csvWriter
+    .render(makeReport())
+    .trimEnd()
+    .split("\n");
+
+  it("keeps the documented column order", () => {
+    expect(header).toBe(
+      "nonce,amount,partner_address,token_address,network,user_address,is_claimed,token_symbol,permit_id,status,deadline,created,repository,issue_url,claim_source,claim_tx,claim_url,error,warning",
+    );
+  });
+
+  it("quotes values with commas and doubles embedded quotes", () => {
+    expect(escapeCsv('acme/"quoted", repo')).toBe('"acme/""quoted"", repo"');
+    expect(escapeCsv("line\nbreak")).toBe('"line\nbreak"');
+    expect(escapeCsv("plain")).toBe("plain");
+    expect(escapeCsv(null)).toBe("");
+    expect(rows[1]).toContain(',"acme/""quoted"", repo",');
+  });
+
+  it("puts warnings on the permit's row and skip reasons in error", () => {
+    expect(rows).toHaveLength(3);
+    expect(rows[0].endsWith(",,")).toBe(true);
+    expect(rows[1].endsWith(",non-canonical nonce: 007")).toBe(true);
+    expect(rows[2].endsWith(",unparseable nonce: 0x01,")).toBe(true);
+  });
+});
+
+describe("ndjsonWriter", () => {
+  it("writes one object per line with warnings on checked permits", () => {
+    const output = ndjsonWriter.render(makeReport());
+    expect(output.endsWith("\n")).toBe(true);
+
+    const lines = output
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toMatchObject({ id: 1, status: "claimed", warning: null });
+    expect(lines[1]).toMatchObject({
+      id: 2,
+      nonce: "007",
+      warning: "non-canonical nonce: 007",
+    });
+    expect(lines[2]).toMatchObject({
+      id: 3,
+      isClaimed: null,
+      error: "unparseable nonce: 0x01",
+    });
+  });
+});
+
+describe("jsonWriter", () => {
+  it("counts and lists data quality warnings", () => {
+    const document = JSON.parse(jsonWriter.render(makeReport()));
+    expect(document.summary).toMatchObject({
+      totalPermits: 2,
+      skippedPermits: 1,
+      dataWarnings: 1,
+    });
+    expect(document.dataWarnings).toEqual([
+      { id: 2, nonce: "007", reason: "non-canonical nonce: 007" },
+    ]);
+  });
+});